@@ -0,0 +1,66 @@
+import React from 'react';
+import clsx from 'clsx';
+import { Attachment } from '../types';
+import { formatFileSize } from '../utils/attachments';
+import { Download, FileText } from 'lucide-react';
+
+interface AttachmentViewProps {
+    attachment: Attachment;
+    isMe: boolean;
+    onOpenImage: (attachment: Attachment) => void;
+}
+
+// Body of an attachment message: inline image or video, or a file card with a download button
+const AttachmentView: React.FC<AttachmentViewProps> = ({ attachment, isMe, onOpenImage }) => {
+    if (attachment.kind === 'image') {
+        return (
+            <button onClick={() => onOpenImage(attachment)} className="block -mx-2 -mt-0.5 mb-1 overflow-hidden rounded-xl" title="Open photo">
+                {/* The thumbnail shows while the full image loads; width/height keep the layout from jumping */}
+                <img
+                    src={attachment.url}
+                    alt={attachment.name}
+                    width={attachment.width}
+                    height={attachment.height}
+                    loading="lazy"
+                    className="block max-w-[260px] max-h-[320px] w-auto h-auto object-cover bg-cover bg-center bg-slate-200 dark:bg-slate-800"
+                    style={attachment.thumbnail ? { backgroundImage: `url(${attachment.thumbnail})` } : undefined}
+                />
+            </button>
+        );
+    }
+
+    if (attachment.kind === 'video') {
+        return (
+            <video
+                src={attachment.url}
+                controls
+                preload="metadata"
+                className="block -mx-2 -mt-0.5 mb-1 max-w-[280px] max-h-[320px] rounded-xl bg-black"
+            />
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3 py-1 min-w-[200px]">
+            <div className={clsx("p-2 rounded-xl flex-shrink-0", isMe ? "bg-blue-500" : "bg-slate-100 dark:bg-slate-800")}>
+                <FileText className={clsx("w-5 h-5", isMe ? "text-white" : "text-blue-600")} />
+            </div>
+            <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{attachment.name}</p>
+                <p className={clsx("text-xs", isMe ? "text-blue-100/80" : "text-slate-500")}>{formatFileSize(attachment.size)}</p>
+            </div>
+            <a
+                href={attachment.url}
+                download={attachment.name}
+                target="_blank"
+                rel="noopener noreferrer"
+                title="Download"
+                className={clsx("p-2 rounded-full transition-colors", isMe ? "hover:bg-blue-500" : "hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500")}
+            >
+                <Download className="w-4 h-4" />
+            </a>
+        </div>
+    );
+};
+
+export default AttachmentView;
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { LANGUAGE_LABELS, TokenType, highlight, resolveLanguage } from '../utils/highlight';
+import { Check, ChevronDown, ChevronUp, Copy } from 'lucide-react';
+
+interface CodeBlockProps {
+    code: string;
+    lang: string;
+}
+
+// Blocks longer than this start collapsed to their first COLLAPSED_LINES lines
+const COLLAPSED_LINES = 12;
+const COLLAPSE_AFTER_LINES = 16;
+
+const TOKEN_CLASSES: Record<TokenType, string | undefined> = {
+    plain: undefined,
+    keyword: 'text-violet-300',
+    literal: 'text-amber-300',
+    string: 'text-emerald-300',
+    number: 'text-amber-300',
+    comment: 'text-slate-500 italic',
+    function: 'text-sky-300',
+    type: 'text-yellow-200',
+    variable: 'text-pink-300',
+    property: 'text-sky-200',
+    operator: 'text-slate-400'
+};
+
+// Fenced code block in a message: highlighted, scrolls sideways, copies in one click, long ones fold
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, lang }) => {
+    const [copied, setCopied] = useState(false);
+    const [expanded, setExpanded] = useState(false);
+
+    const language = resolveLanguage(lang);
+    const tokens = useMemo(() => highlight(code, language), [code, language]);
+    const lineCount = code.split('\n').length;
+    const isCollapsed = lineCount > COLLAPSE_AFTER_LINES && !expanded;
+
+    useEffect(() => {
+        if (!copied) return;
+        const timer = setTimeout(() => setCopied(false), 2000);
+        return () => clearTimeout(timer);
+    }, [copied]);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setCopied(true);
+        } catch (err) {
+            // No clipboard access on insecure origins or without permission
+            console.warn("Failed to copy code", err);
+        }
+    };
+
+    return (
+        <div className="rounded-lg overflow-hidden bg-slate-950 text-slate-100 border border-black/10 dark:border-white/10 whitespace-normal">
+            <div className="flex items-center justify-between gap-2 pl-3 pr-1.5 py-1 text-[11px] text-slate-400 border-b border-white/10">
+                <span className="font-medium truncate">{language ? LANGUAGE_LABELS[language] : lang || 'Code'}</span>
+                <button
+                    onClick={copy}
+                    title="Copy code"
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-white/10 hover:text-slate-200 transition-colors flex-shrink-0"
+                >
+                    {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+                    <span>{copied ? 'Copied' : 'Copy'}</span>
+                </button>
+            </div>
+
+            <div className="relative">
+                <pre
+                    className={clsx("px-3 py-2 overflow-x-auto font-mono text-[13px] leading-[1.5] whitespace-pre", isCollapsed && "overflow-y-hidden")}
+                    style={isCollapsed ? { maxHeight: `calc(${COLLAPSED_LINES * 1.5}em + 1rem)` } : undefined}
+                >
+                    <code>
+                        {tokens.map((token, i) => (
+                            TOKEN_CLASSES[token.type]
+                                ? <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                                : token.text
+                        ))}
+                    </code>
+                </pre>
+                {isCollapsed && <div className="absolute inset-x-0 bottom-0 h-10 bg-gradient-to-t from-slate-950 pointer-events-none" />}
+            </div>
+
+            {lineCount > COLLAPSE_AFTER_LINES && (
+                <button
+                    onClick={() => setExpanded(!expanded)}
+                    className="w-full flex items-center justify-center gap-1 py-1 text-[11px] text-slate-400 hover:text-slate-200 hover:bg-white/5 border-t border-white/10 transition-colors"
+                >
+                    {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                    {expanded ? 'Show less' : `Show all ${lineCount} lines`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default CodeBlock;
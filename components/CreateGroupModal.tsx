@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { User } from '../types';
 import { chatService } from '../services/chatService';
+import { describeError } from '../utils/errorMessages';
 import Avatar from './Avatar';
 import { X, Users, Check, Search, Plus } from 'lucide-react';
 
@@ -65,21 +66,19 @@ const CreateGroupModal: React.FC<CreateGroupModalProps> = ({
         if (!groupName.trim() || selectedMembers.length === 0) return;
 
         setIsCreating(true);
-        try {
-            const chatId = await chatService.createGroupChat(
-                groupName.trim(),
-                description.trim(),
-                selectedMembers.map(m => m.userId)
-            );
-            onSuccess(chatId);
+        const result = await chatService.createGroupChat(
+            groupName.trim(),
+            description.trim(),
+            selectedMembers.map(m => m.userId)
+        );
+        if (result.success) {
+            onSuccess(result.data);
             onClose();
             resetForm();
-        } catch (error) {
-            console.error('Failed to create group', error);
-            onError('Failed to create group');
-        } finally {
-            setIsCreating(false);
+        } else {
+            onError(describeError(result.error));
         }
+        setIsCreating(false);
     };
 
     const resetForm = () => {
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Message } from '../types';
+import { DeleteMode } from '../services/chatBackend';
+import { messageSummary } from '../utils/attachments';
+import { Trash2, X, EyeOff } from 'lucide-react';
+
+interface DeleteMessageModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    message: Message;
+    canDeleteForEveryone: boolean;
+    onDelete: (mode: DeleteMode) => void;
+}
+
+const DeleteMessageModal: React.FC<DeleteMessageModalProps> = ({
+    isOpen,
+    onClose,
+    message,
+    canDeleteForEveryone,
+    onDelete
+}) => {
+    if (!isOpen) return null;
+
+    const choose = (mode: DeleteMode) => {
+        onDelete(mode);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl w-full max-w-sm mx-4 shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                    <div className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-red-600" />
+                        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Delete Message</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Message Preview */}
+                {!message.deletedAt && (
+                    <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800">
+                        <p className="text-sm text-slate-700 dark:text-slate-300 line-clamp-2">{messageSummary(message)}</p>
+                    </div>
+                )}
+
+                <div className="p-4 space-y-2">
+                    <button
+                        onClick={() => choose('me')}
+                        className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left border border-slate-200 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+                    >
+                        <EyeOff className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900 dark:text-white">Delete for me</p>
+                            <p className="text-xs text-slate-500">Others in the chat still see it.</p>
+                        </div>
+                    </button>
+                    {canDeleteForEveryone && (
+                        <button
+                            onClick={() => choose('everyone')}
+                            className="w-full flex items-center gap-3 px-4 py-3 rounded-xl text-left border border-red-100 dark:border-red-900/30 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        >
+                            <Trash2 className="w-4 h-4 text-red-600 flex-shrink-0" />
+                            <div>
+                                <p className="text-sm font-medium text-red-600">Delete for everyone</p>
+                                <p className="text-xs text-slate-500">Replaced with "Message deleted" for all members.</p>
+                            </div>
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DeleteMessageModal;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { format, isToday } from 'date-fns';
+import clsx from 'clsx';
+import { Message, MessageRevision } from '../types';
+import { chatService } from '../services/chatService';
+import { diffWords } from '../utils/textDiff';
+import { X, History, Loader2 } from 'lucide-react';
+
+interface EditHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    chatId: string;
+    message: Message;
+    getDisplayName: (userId: string) => string;
+}
+
+interface Version {
+    text: string;
+    authorId: string;
+    writtenAt: Date;
+}
+
+const formatVersionTime = (date: Date) =>
+    isToday(date) ? format(date, 'h:mm a') : format(date, 'MMM d, h:mm a');
+
+const EditHistoryModal: React.FC<EditHistoryModalProps> = ({
+    isOpen,
+    onClose,
+    chatId,
+    message,
+    getDisplayName
+}) => {
+    const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setRevisions(null);
+        chatService.getMessageRevisions(chatId, message.messageId).then(result => {
+            if (!cancelled) setRevisions(result);
+        });
+        return () => { cancelled = true; };
+    }, [isOpen, chatId, message.messageId]);
+
+    if (!isOpen) return null;
+
+    // Oldest first, ending with what the message says now
+    const versions: Version[] = [
+        ...(revisions || []),
+        { text: message.text, authorId: message.senderId, writtenAt: new Date(message.editedAt || message.createdAt) }
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl w-full max-w-md mx-4 shadow-2xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                    <div className="flex items-center gap-2">
+                        <History className="w-5 h-5 text-blue-600" />
+                        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Edit History</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Versions, newest first; each shows what changed since the one before it */}
+                <div className="flex-1 overflow-y-auto">
+                    {revisions === null ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                                <li key={index} className="px-4 py-3">
+                                    <div className="flex items-center justify-between mb-1 text-xs text-slate-500">
+                                        <span className="font-bold uppercase tracking-wider">
+                                            {index === versions.length - 1 ? 'Current' : index === 0 ? 'Original' : `Edit ${index}`}
+                                            {' · '}{getDisplayName(version.authorId)}
+                                        </span>
+                                        <span>{formatVersionTime(version.writtenAt)}</span>
+                                    </div>
+                                    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap break-words">
+                                        {index === 0
+                                            ? version.text
+                                            : diffWords(versions[index - 1].text, version.text).map((part, i) => (
+                                                <span
+                                                    key={i}
+                                                    className={clsx(
+                                                        part.type === 'added' && "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300",
+                                                        part.type === 'removed' && "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 line-through"
+                                                    )}
+                                                >
+                                                    {part.text}
+                                                </span>
+                                            ))}
+                                    </p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EditHistoryModal;
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+interface ExpiryCountdownProps {
+    expiresAt: Date;
+}
+
+const formatRemaining = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Live time-to-live of a self-destructing message
+const ExpiryCountdown: React.FC<ExpiryCountdownProps> = ({ expiresAt }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    return (
+        <span className="flex items-center gap-0.5 text-orange-400 font-bold tabular-nums" title="Self-destructing">
+            <Timer className="w-2.5 h-2.5" />
+            {formatRemaining(new Date(expiresAt).getTime() - now)}
+        </span>
+    );
+};
+
+export default ExpiryCountdown;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Chat } from '../types';
 import { chatService } from '../services/chatService';
+import { ChatError } from '../services/chatErrors';
 import Avatar from './Avatar';
+import { isUserOnline } from '../services/presence';
 import { X, Forward, Check, Search } from 'lucide-react';
 import { clsx } from 'clsx';
 
@@ -12,7 +14,7 @@ interface ForwardModalProps {
     chatId: string;
     messageText: string;
     onSuccess: () => void;
-    onError: (error: string) => void;
+    onError: (error: ChatError) => void;
 }
 
 const ForwardModal: React.FC<ForwardModalProps> = ({
@@ -61,25 +63,22 @@ const ForwardModal: React.FC<ForwardModalProps> = ({
         if (selectedChats.length === 0) return;
 
         setForwarding(true);
-        try {
-            const result = await chatService.forwardMessage(chatId, messageId, selectedChats);
-            if (result.success) {
-                onSuccess();
-                onClose();
-                setSelectedChats([]);
-            } else {
-                onError(result.error || 'Failed to forward message');
-            }
-        } catch (err) {
-            console.error('Forward failed', err);
-            onError('Failed to forward message');
-        } finally {
-            setForwarding(false);
+        const result = await chatService.forwardMessage(chatId, messageId, selectedChats);
+        if (result.success) {
+            onSuccess();
+            onClose();
+            setSelectedChats([]);
+        } else {
+            onError(result.error);
         }
+        setForwarding(false);
     };
 
+    const getChatTitle = (chat: Chat) =>
+        chat.type === 'group' ? chat.name : chat.otherUser?.displayName;
+
     const filteredChats = chats.filter(chat =>
-        chat.otherUser?.displayName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        getChatTitle(chat)?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         chat.otherUser?.email?.toLowerCase().includes(searchTerm.toLowerCase())
     );
 
@@ -141,17 +140,17 @@ const ForwardModal: React.FC<ForwardModalProps> = ({
                                         className="w-full px-4 py-3 flex items-center gap-3 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-left"
                                     >
                                         <Avatar
-                                            name={chat.otherUser?.displayName || 'User'}
+                                            name={getChatTitle(chat) || 'User'}
                                             src={chat.otherUser?.photoURL}
-                                            isOnline={chat.otherUser?.isOnline}
+                                            isOnline={chat.type === 'direct' ? isUserOnline(chat.otherUser) : undefined}
                                             size="md"
                                         />
                                         <div className="flex-1 min-w-0">
                                             <p className="font-semibold text-slate-900 dark:text-white truncate">
-                                                {chat.otherUser?.displayName || 'Unknown User'}
+                                                {getChatTitle(chat) || 'Unknown User'}
                                             </p>
                                             <p className="text-sm text-slate-500 dark:text-slate-400 truncate">
-                                                {chat.otherUser?.email}
+                                                {chat.type === 'group' ? `${chat.participants.length} members` : chat.otherUser?.email}
                                             </p>
                                         </div>
                                         <div className={clsx(
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
 import { Chat } from '../types';
 import { chatService } from '../services/chatService';
+import { ChatError } from '../services/chatErrors';
+import { DeleteMode } from '../services/chatBackend';
 import Avatar from './Avatar';
+import { isUserOnline } from '../services/presence';
 import ReportUserModal from './ReportUserModal';
-import { X, UserMinus, Shield, ShieldAlert, LogOut, Trash2, Ban, Flag } from 'lucide-react';
+import { DELETE_WINDOW_OPTIONS, EDIT_WINDOW_OPTIONS, MessagePolicy, formatWindow, policyOf } from '../utils/messagePolicy';
+import { X, UserMinus, Shield, ShieldAlert, LogOut, Trash2, Ban, Flag, EyeOff } from 'lucide-react';
 
 interface GroupInfoPanelProps {
     chat: Chat;
     onClose: () => void;
     onSuccess: (message: string) => void;
-    onError: (error: string) => void;
+    onError: (error: ChatError) => void;
 }
 
 const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({
@@ -20,92 +24,104 @@ const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({
 }) => {
     const [loading, setLoading] = useState<string | null>(null);
     const [reportingUser, setReportingUser] = useState<{ id: string, name: string } | null>(null);
+    const [progress, setProgress] = useState<{ deleted: number; total: number } | null>(null);
 
     const currentUser = chatService.getCurrentUser();
     const isAdmin = chat.admins?.includes(currentUser?.userId || '');
+    const policy = policyOf(chat);
 
     const handleRemoveMember = async (userId: string) => {
         setLoading(userId);
-        try {
-            const result = await chatService.removeGroupMember(chat.chatId, userId);
-            if (result.success) {
-                onSuccess('Member removed');
-            } else {
-                onError(result.error || 'Failed to remove member');
-            }
-        } catch (err) {
-            onError('Error removing member');
-        } finally {
-            setLoading(null);
+        const result = await chatService.removeGroupMember(chat.chatId, userId);
+        if (result.success) {
+            onSuccess('Member removed');
+        } else {
+            onError(result.error);
         }
+        setLoading(null);
     };
 
     const handleMakeAdmin = async (userId: string) => {
         setLoading(userId);
-        try {
-            const result = await chatService.makeAdmin(chat.chatId, userId);
-            if (result.success) {
-                onSuccess('Admin status granted');
-            } else {
-                onError(result.error || 'Failed to make admin');
-            }
-        } catch (err) {
-            onError('Error making admin');
-        } finally {
-            setLoading(null);
+        const result = await chatService.makeAdmin(chat.chatId, userId);
+        if (result.success) {
+            onSuccess('Admin status granted');
+        } else {
+            onError(result.error);
         }
+        setLoading(null);
     };
 
     const handleBlockUser = async (userId: string) => {
         if (!window.confirm('Block this user? They will no longer be able to message you directly.')) return;
 
         setLoading(userId);
-        try {
-            await chatService.toggleBlockUser(userId, true);
+        const result = await chatService.toggleBlockUser(userId, true);
+        if (result.success) {
             onSuccess('User blocked');
-        } catch (err) {
-            onError('Failed to block user');
-        } finally {
-            setLoading(null);
+        } else {
+            onError(result.error);
         }
+        setLoading(null);
     };
 
     const handleLeaveGroup = async () => {
         if (!window.confirm('Are you sure you want to leave this group?')) return;
 
         setLoading('leave');
-        try {
-            const result = await chatService.leaveGroup(chat.chatId);
-            if (result.success) {
-                window.location.href = '/'; // Navigate back to list
-            } else {
-                onError(result.error || 'Failed to leave group');
-            }
-        } catch (err) {
-            onError('Error leaving group');
-        } finally {
-            setLoading(null);
+        const result = await chatService.leaveGroup(chat.chatId);
+        if (result.success) {
+            window.location.href = '/'; // Navigate back to list
+        } else {
+            onError(result.error);
         }
+        setLoading(null);
     };
 
-    const handleClearHistory = async () => {
-        if (!window.confirm('Clear all messages for everyone? This cannot be undone.')) return;
-
-        setLoading('clear');
-        try {
-            const result = await chatService.clearChatHistory(chat.chatId);
-            if (result.success) {
-                onSuccess('Chat history cleared');
-            } else {
-                onError(result.error || 'Failed to clear history');
-            }
-        } catch (err) {
-            onError('Error clearing history');
-        } finally {
-            setLoading(null);
+    const handlePolicyChange = async (change: Partial<MessagePolicy>) => {
+        setLoading('policy');
+        const result = await chatService.setMessagePolicy(chat.chatId, { ...policy, ...change });
+        if (result.success) {
+            onSuccess('Message rules updated');
+        } else {
+            onError(result.error);
         }
+        setLoading(null);
     };
 
+    const handleClearHistory = async (mode: DeleteMode) => {
+        const question = mode === 'me'
+            ? 'Clear all messages from your view? Other members still see them.'
+            : 'Clear all messages for everyone? This cannot be undone.';
+        if (!window.confirm(question)) return;
+
+        setLoading(`clear-${mode}`);
+        const result = await chatService.clearChatHistory(chat.chatId, mode, (deleted, total) => setProgress({ deleted, total }));
+        if (result.success) {
+            onSuccess('Chat history cleared');
+        } else {
+            onError(result.error);
+        }
+        setProgress(null);
+        setLoading(null);
+    };
+
+    const handleDeleteGroup = async () => {
+        if (!window.confirm(`Delete "${chat.name}" and all its messages for every member? This cannot be undone.`)) return;
+
+        setLoading('delete');
+        const result = await chatService.deleteChat(chat.chatId, (deleted, total) => setProgress({ deleted, total }));
+        setProgress(null);
+        setLoading(null);
+        if (result.success) {
+            window.location.href = '/'; // Navigate back to list
+        } else {
+            onError(result.error);
+        }
+    };
+
+    const progressLabel = progress && progress.total > 0 ? `Deleting ${progress.deleted} / ${progress.total}` : 'Deleting…';
+
     return (
         <>
             {/* Backdrop for mobile */}
@@ -139,6 +155,33 @@ const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({
                         </div>
                     </div>
 
+                    {/* Message Rules: how long senders can edit or delete for everyone */}
+                    <div className="p-4 border-b border-slate-100 dark:border-slate-800">
+                        <h4 className="text-[11px] font-black text-slate-400 uppercase mb-3 tracking-widest">Message Rules</h4>
+                        {([
+                            { key: 'editWindowMinutes', label: 'Edit messages', options: EDIT_WINDOW_OPTIONS },
+                            { key: 'deleteWindowMinutes', label: 'Delete for everyone', options: DELETE_WINDOW_OPTIONS }
+                        ] as const).map(({ key, label, options }) => (
+                            <div key={key} className="flex items-center justify-between py-1.5">
+                                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">{label}</span>
+                                {isAdmin ? (
+                                    <select
+                                        value={policy[key] ?? ''}
+                                        onChange={(e) => handlePolicyChange({ [key]: e.target.value ? Number(e.target.value) : null })}
+                                        disabled={!!loading}
+                                        className="bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-600 dark:text-slate-400 px-3 py-1.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50"
+                                    >
+                                        {options.map(minutes => (
+                                            <option key={minutes ?? 'any'} value={minutes ?? ''}>{formatWindow(minutes)}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <span className="text-xs font-bold text-slate-500">{formatWindow(policy[key])}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
                     {/* Member List */}
                     <div className="p-4">
                         <h4 className="text-[11px] font-black text-slate-400 uppercase mb-4 tracking-widest">Members Directory</h4>
@@ -150,7 +193,7 @@ const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({
                                 return (
                                     <li key={member.userId} className="group/member p-2.5 hover:bg-slate-50 dark:hover:bg-slate-900 rounded-2xl transition-all">
                                         <div className="flex items-center gap-3">
-                                            <Avatar name={member.displayName} src={member.photoURL} isOnline={member.isOnline} size="sm" />
+                                            <Avatar name={member.displayName} src={member.photoURL} isOnline={isUserOnline(member)} size="sm" />
                                             <div className="flex-1 min-w-0">
                                                 <p className="text-sm font-bold text-slate-900 dark:text-white truncate flex items-center gap-1.5">
                                                     {member.displayName} {isSelf && <span className="text-[9px] bg-blue-100 dark:bg-blue-900/40 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded-full font-black uppercase tracking-tighter">You</span>}
@@ -213,14 +256,32 @@ const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({
 
                 {/* Primary Actions */}
                 <div className="p-4 border-t border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-950 sticky bottom-0 space-y-2">
+                    <button
+                        onClick={() => handleClearHistory('me')}
+                        disabled={!!loading}
+                        className="w-full flex items-center justify-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-400 hover:bg-slate-900 dark:hover:bg-white hover:text-white dark:hover:text-slate-900 rounded-xl transition-all border border-slate-200 dark:border-slate-800 active:scale-[0.98]"
+                    >
+                        <EyeOff className="w-4 h-4" />
+                        Clear History for Me
+                    </button>
                     {isAdmin && (
                         <button
-                            onClick={handleClearHistory}
+                            onClick={() => handleClearHistory('everyone')}
                             disabled={!!loading}
                             className="w-full flex items-center justify-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-red-600 hover:bg-red-600 hover:text-white rounded-xl transition-all border border-red-100 dark:border-red-900/30 active:scale-[0.98]"
                         >
                             <Trash2 className="w-4 h-4" />
-                            Clear History
+                            {loading === 'clear-everyone' ? progressLabel : 'Clear History for Everyone'}
+                        </button>
+                    )}
+                    {isAdmin && (
+                        <button
+                            onClick={handleDeleteGroup}
+                            disabled={!!loading}
+                            className="w-full flex items-center justify-center gap-2 px-4 py-3 text-[11px] font-black uppercase tracking-widest text-white bg-red-600 hover:bg-red-700 rounded-xl transition-all active:scale-[0.98]"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            {loading === 'delete' ? progressLabel : 'Delete Group'}
                         </button>
                     )}
                     <button
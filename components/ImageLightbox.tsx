@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { Attachment } from '../types';
+import { Download, X } from 'lucide-react';
+
+interface ImageLightboxProps {
+    attachment: Attachment;
+    onClose: () => void;
+}
+
+// Full-size view of an image attachment; closes on Escape or a click outside the image
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ attachment, onClose }) => {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 z-[80] flex flex-col bg-black/90 animate-fade-in" onClick={onClose}>
+            <div className="flex items-center justify-between px-4 py-3 text-white" onClick={(e) => e.stopPropagation()}>
+                <p className="text-sm font-medium truncate pr-4">{attachment.name}</p>
+                <div className="flex items-center gap-1">
+                    <a
+                        href={attachment.url}
+                        download={attachment.name}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title="Download"
+                        className="p-2 rounded-full hover:bg-white/10 transition-colors"
+                    >
+                        <Download className="w-5 h-5" />
+                    </a>
+                    <button onClick={onClose} title="Close" className="p-2 rounded-full hover:bg-white/10 transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 flex items-center justify-center p-4 min-h-0">
+                <img
+                    src={attachment.url}
+                    alt={attachment.name}
+                    className="max-w-full max-h-full object-contain"
+                    onClick={(e) => e.stopPropagation()}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default ImageLightbox;
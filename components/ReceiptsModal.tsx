@@ -0,0 +1,89 @@
+import React from 'react';
+import { format, isToday } from 'date-fns';
+import { Chat, Message } from '../types';
+import { getMessageReceipts, MemberReceipt } from '../utils/receipts';
+import Avatar from './Avatar';
+import { X, Eye, CheckCheck, Check, Clock } from 'lucide-react';
+
+interface ReceiptsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    message: Message;
+    chat: Chat;
+}
+
+const formatReceiptTime = (date: Date) =>
+    isToday(date) ? format(date, 'h:mm a') : format(date, 'MMM d, h:mm a');
+
+const ReceiptsModal: React.FC<ReceiptsModalProps> = ({
+    isOpen,
+    onClose,
+    message,
+    chat
+}) => {
+    if (!isOpen) return null;
+
+    const receipts = getMessageReceipts(message, chat);
+
+    const sections: { title: string; icon: React.ReactNode; members: MemberReceipt[] }[] = [
+        { title: 'Read by', icon: <CheckCheck className="w-4 h-4 text-blue-500" />, members: receipts.read },
+        { title: 'Delivered to', icon: <CheckCheck className="w-4 h-4 text-slate-400" />, members: receipts.delivered },
+        { title: 'Not delivered yet', icon: <Check className="w-4 h-4 text-slate-400" />, members: receipts.pending }
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl w-full max-w-md mx-4 shadow-2xl max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                    <div className="flex items-center gap-2">
+                        <Eye className="w-5 h-5 text-blue-600" />
+                        <h2 className="text-lg font-bold text-slate-900 dark:text-white">Message Info</h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Message Preview */}
+                <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800">
+                    <p className="text-sm text-slate-700 dark:text-slate-300 line-clamp-2">{message.text}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        Sent {formatReceiptTime(new Date(message.createdAt))}
+                    </p>
+                </div>
+
+                {/* Receipts */}
+                <div className="flex-1 overflow-y-auto">
+                    {sections.filter(section => section.members.length > 0).map(section => (
+                        <div key={section.title}>
+                            <div className="px-4 pt-4 pb-2 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500">
+                                {section.icon}
+                                {section.title} · {section.members.length}
+                            </div>
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                                {section.members.map(({ user, at }) => (
+                                    <li key={user.userId} className="px-4 py-2.5 flex items-center gap-3">
+                                        <Avatar name={user.displayName} src={user.photoURL} size="sm" />
+                                        <p className="flex-1 min-w-0 font-medium text-slate-900 dark:text-white truncate">{user.displayName}</p>
+                                        {at && <span className="text-xs text-slate-500">{formatReceiptTime(at)}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="px-4 py-3 text-[11px] text-slate-400 border-t border-slate-100 dark:border-slate-800">
+                    Times show when each member last caught up with the chat.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptsModal;
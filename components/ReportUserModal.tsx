@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X, AlertTriangle, Check } from 'lucide-react';
 import { chatService } from '../services/chatService';
+import { describeError } from '../utils/errorMessages';
 
 interface ReportUserModalProps {
     isOpen: boolean;
@@ -33,23 +34,18 @@ const ReportUserModal: React.FC<ReportUserModalProps> = ({
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
-        try {
-            const result = await chatService.reportUser(userId, reason, description);
-            if (result.success) {
-                setIsDone(true);
-                setTimeout(() => {
-                    onSuccess();
-                    onClose();
-                    resetForm();
-                }, 2000);
-            } else {
-                alert(result.error || 'Failed to submit report');
-            }
-        } catch (error) {
-            alert('An error occurred');
-        } finally {
-            setIsSubmitting(false);
+        const result = await chatService.reportUser(userId, reason, description);
+        if (result.success) {
+            setIsDone(true);
+            setTimeout(() => {
+                onSuccess();
+                onClose();
+                resetForm();
+            }, 2000);
+        } else {
+            alert(describeError(result.error));
         }
+        setIsSubmitting(false);
     };
 
     const resetForm = () => {
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { Attachment } from '../types';
+import { PLAYBACK_RATES, WAVEFORM_BARS, formatDuration } from '../utils/voice';
+import { Pause, Play } from 'lucide-react';
+
+interface VoicePlayerProps {
+    attachment: Attachment;
+    isMe: boolean;
+    isUnplayed: boolean;
+    onPlayed: () => void;
+}
+
+// Voice message bubble body: play/pause, waveform that fills up as it plays (click to seek), speed and duration
+const VoicePlayer: React.FC<VoicePlayerProps> = ({ attachment, isMe, isUnplayed, onPlayed }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [positionMs, setPositionMs] = useState(0);
+    const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+
+    const durationMs = attachment.durationMs || 0;
+    const waveform = attachment.waveform?.length ? attachment.waveform : Array(WAVEFORM_BARS).fill(0);
+    const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+    useEffect(() => {
+        if (audioRef.current) audioRef.current.playbackRate = rate;
+    }, [rate]);
+
+    const togglePlay = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (audio.paused) {
+            audio.play().catch(err => console.warn("Playback failed", err));
+            onPlayed();
+        } else {
+            audio.pause();
+        }
+    };
+
+    const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+        const audio = audioRef.current;
+        if (!audio || !durationMs) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+        audio.currentTime = (fraction * durationMs) / 1000;
+        setPositionMs(fraction * durationMs);
+    };
+
+    const cycleRate = () => setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+
+    return (
+        <div className="flex items-center gap-2.5 py-1 min-w-[220px]">
+            <audio
+                ref={audioRef}
+                src={attachment.url}
+                preload="metadata"
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+                onEnded={() => setPositionMs(0)}
+            />
+            <button
+                onClick={togglePlay}
+                title={isPlaying ? 'Pause' : 'Play'}
+                className={clsx(
+                    "w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 transition-colors",
+                    isMe ? "bg-white text-blue-600 hover:bg-blue-50" : "bg-blue-600 text-white hover:bg-blue-700"
+                )}
+            >
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+            </button>
+
+            <div className="flex-1 min-w-0">
+                <div onClick={seek} className="flex items-center gap-[2px] h-6 cursor-pointer" title="Seek">
+                    {waveform.map((level, i) => (
+                        <span
+                            key={i}
+                            className={clsx(
+                                "flex-1 rounded-full",
+                                (i + 0.5) / waveform.length <= progress
+                                    ? (isMe ? "bg-white" : "bg-blue-600")
+                                    : (isMe ? "bg-blue-300/60" : "bg-slate-300 dark:bg-slate-600")
+                            )}
+                            style={{ height: `${Math.max(12, level * 100)}%` }}
+                        />
+                    ))}
+                </div>
+                <div className={clsx("flex items-center gap-1.5 mt-0.5 text-[11px] tabular-nums", isMe ? "text-blue-100/80" : "text-slate-500")}>
+                    <span>{formatDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}</span>
+                    {isUnplayed && <span className={clsx("w-1.5 h-1.5 rounded-full", isMe ? "bg-white" : "bg-blue-600")} title="Not played yet" />}
+                </div>
+            </div>
+
+            <button
+                onClick={cycleRate}
+                title="Playback speed"
+                className={clsx(
+                    "px-1.5 py-0.5 rounded-full text-[10px] font-bold flex-shrink-0 transition-colors",
+                    isMe ? "bg-blue-500 hover:bg-blue-400" : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200"
+                )}
+            >
+                {rate}×
+            </button>
+        </div>
+    );
+};
+
+export default VoicePlayer;
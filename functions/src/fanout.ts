@@ -0,0 +1,250 @@
+import { DocumentSnapshot, FieldValue, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import { getMessaging } from 'firebase-admin/messaging';
+import { getStorage } from 'firebase-admin/storage';
+import { logger } from 'firebase-functions';
+import { onDocumentCreated, onDocumentDeleted, onDocumentUpdated, onDocumentWritten } from 'firebase-functions/v2/firestore';
+
+// Server-side fan-out of new messages. Clients only write the message document; everything derived from it
+// (the chat preview, every participant's index entry and unread counter, push notifications) is written here,
+// so it can't be forged and a group send costs the sender a single write.
+
+// The server can't read encrypted text
+const ENCRYPTED_PREVIEW = '🔒 Encrypted message';
+const DELETED_PREVIEW = 'Message deleted';
+const NOTIFICATION_BODY_LENGTH = 100;
+
+// FCM errors meaning the token will never work again
+const STALE_TOKEN_ERRORS = ['messaging/registration-token-not-registered', 'messaging/invalid-registration-token'];
+
+interface MessageData {
+  senderId: string;
+  text?: string;
+  type?: 'text' | 'system' | 'attachment' | 'audio';
+  attachment?: { kind: 'image' | 'video' | 'file' | 'audio'; name: string };
+  isEncrypted?: boolean;
+  createdAt?: Timestamp;
+  deletedAt?: Timestamp;
+  fannedOutAt?: Timestamp;
+}
+
+interface ChatData {
+  type?: 'direct' | 'group';
+  name?: string;
+  participants: string[];
+  lastMessage?: string;
+  lastMessageAt?: Timestamp;
+  lastMessageSender?: string;
+  lastMessageId?: string;
+  // Direct chats: when each member removed the chat from their list
+  deletedBy?: Record<string, Timestamp | boolean>;
+}
+
+// Same labels as attachmentLabel in utils/attachments.ts
+const attachmentPreview = (attachment: NonNullable<MessageData['attachment']>) => {
+  if (attachment.kind === 'image') return '📷 Photo';
+  if (attachment.kind === 'video') return '🎥 Video';
+  if (attachment.kind === 'audio') return '🎤 Voice message';
+  return `📎 ${attachment.name}`;
+};
+
+const previewOf = (message: MessageData) => {
+  if (message.attachment) return attachmentPreview(message.attachment);
+  return message.isEncrypted ? ENCRYPTED_PREVIEW : message.text || '';
+};
+
+// Identity fields of users/{uid}/chats/{chatId}, so a merge into an entry that was removed still leaves a valid one
+const indexEntry = (chat: ChatData, chatId: string, uid: string) => ({
+  userId: uid,
+  chatId,
+  type: chat.type || 'direct',
+  otherUserId: chat.type === 'group' ? '' : chat.participants.find(p => p !== uid) || ''
+});
+
+// A complete entry for someone who has none: they just joined, or deleted the chat from their list. In the latter
+// case the history from before they deleted it stays hidden.
+const newIndexEntry = (chat: ChatData, chatId: string, uid: string) => {
+  const deletedAt = chat.deletedBy?.[uid];
+  return {
+    ...indexEntry(chat, chatId, uid),
+    lastMessage: chat.lastMessage || '',
+    lastMessageAt: chat.lastMessageAt || FieldValue.serverTimestamp(),
+    lastMessageSender: chat.lastMessageSender || '',
+    unreadCount: 0,
+    isArchived: false,
+    isMuted: false,
+    isPinned: false,
+    ...(deletedAt instanceof Timestamp ? { clearedAt: deletedAt } : {})
+  };
+};
+
+// Everyone who joins a chat (when it's created or a member is added) gets an index entry. Clients may only write
+// their own, so the creator's is usually there already and is left alone.
+export const onChatWritten = onDocumentWritten('chats/{chatId}', async event => {
+  const before = event.data?.before.data() as ChatData | undefined;
+  const after = event.data?.after.data() as ChatData | undefined;
+  if (!after) return;
+
+  const joined = after.participants.filter(uid => !before?.participants.includes(uid));
+  if (joined.length === 0) return;
+
+  const { chatId } = event.params;
+  const db = getFirestore();
+
+  await db.runTransaction(async tx => {
+    const entries = await tx.getAll(...joined.map(uid => db.doc(`users/${uid}/chats/${chatId}`)));
+    entries.forEach((entry, i) => {
+      const fields: Record<string, unknown> = newIndexEntry(after, chatId, joined[i]);
+      // The client may have written part of its entry already (e.g. marking the chat read); keep what's there
+      const unset = Object.entries(fields).filter(([key]) => !entry.exists || entry.get(key) === undefined);
+      if (unset.length > 0) tx.set(entry.ref, Object.fromEntries(unset), { merge: true });
+    });
+  });
+});
+
+// Update the chat preview and every participant's index entry; bump the unread counter of everyone but the sender.
+// Someone who deleted a direct chat gets it back in their list with the new message.
+export const onMessageCreated = onDocumentCreated('chats/{chatId}/messages/{messageId}', async event => {
+  if (!event.data) return;
+  const { chatId, messageId } = event.params;
+  const db = getFirestore();
+  const messageRef = event.data.ref;
+  const chatRef = db.doc(`chats/${chatId}`);
+
+  const delivered = await db.runTransaction(async tx => {
+    const message = (await tx.get(messageRef)).data() as MessageData | undefined;
+    const chat = (await tx.get(chatRef)).data() as ChatData | undefined;
+
+    // Events are delivered at least once; the marker keeps a redelivery from counting the message twice
+    if (!message || !chat || message.fannedOutAt) return null;
+    const entries = await tx.getAll(...chat.participants.map(uid => db.doc(`users/${uid}/chats/${chatId}`)));
+    const restored = chat.participants.filter((_, i) => !entries[i].exists);
+
+    // Events can also arrive out of order: an older message never replaces a newer preview
+    const createdAt = message.createdAt || Timestamp.now();
+    const isLatest = !chat.lastMessageAt || createdAt.toMillis() >= chat.lastMessageAt.toMillis();
+    const preview = {
+      lastMessage: previewOf(message),
+      lastMessageAt: createdAt,
+      lastMessageSender: message.senderId
+    };
+    // System notices (timer changes) update the preview but aren't unread
+    const countAsUnread = message.type !== 'system';
+
+    const chatUpdate = {
+      ...(isLatest ? { ...preview, lastMessageId: messageId } : {}),
+      ...Object.fromEntries(restored.filter(uid => chat.deletedBy?.[uid]).map(uid => [`deletedBy.${uid}`, FieldValue.delete()]))
+    };
+    if (Object.keys(chatUpdate).length > 0) tx.update(chatRef, chatUpdate);
+    chat.participants.forEach(uid => {
+      tx.set(db.doc(`users/${uid}/chats/${chatId}`), {
+        ...(restored.includes(uid) ? newIndexEntry(chat, chatId, uid) : indexEntry(chat, chatId, uid)),
+        ...(isLatest ? preview : {}),
+        ...(countAsUnread && uid !== message.senderId ? { unreadCount: FieldValue.increment(1) } : {})
+      }, { merge: true });
+    });
+    tx.update(messageRef, { fannedOutAt: FieldValue.serverTimestamp() });
+
+    return { chat, message, recipients: countAsUnread ? chat.participants.filter(uid => uid !== message.senderId) : [] };
+  });
+
+  if (!delivered || delivered.recipients.length === 0) return;
+
+  // Best effort: a failed push must not undo or repeat the fan-out
+  try {
+    await notify(chatId, delivered.chat, delivered.message, delivered.recipients);
+  } catch (err) {
+    logger.warn('Failed to send notifications', { chatId, messageId, err });
+  }
+});
+
+// Deleting a message for everyone drops its edit history and attachment, and the preview if it still shows the text
+export const onMessageUpdated = onDocumentUpdated('chats/{chatId}/messages/{messageId}', async event => {
+  const before = event.data?.before.data() as MessageData | undefined;
+  const after = event.data?.after.data() as MessageData | undefined;
+  if (!after?.deletedAt || before?.deletedAt) return;
+
+  const { chatId, messageId } = event.params;
+  const db = getFirestore();
+  const chatRef = db.doc(`chats/${chatId}`);
+
+  await Promise.all([deleteRevisions(chatId, messageId), deleteAttachment(chatId, messageId)]);
+
+  await db.runTransaction(async tx => {
+    const chat = (await tx.get(chatRef)).data() as ChatData | undefined;
+    if (!chat || chat.lastMessageId !== messageId) return;
+
+    tx.update(chatRef, { lastMessage: DELETED_PREVIEW });
+    chat.participants.forEach(uid => {
+      tx.set(db.doc(`users/${uid}/chats/${chatId}`), {
+        ...indexEntry(chat, chatId, uid),
+        lastMessage: DELETED_PREVIEW
+      }, { merge: true });
+    });
+  });
+});
+
+// Hard deletes (clearing history, deleting a chat, TTL expiry) would leave the preview showing text that's gone
+// Subcollections and Storage files outlive the document, so the edit history and attachment are deleted here as well.
+export const onMessageDeleted = onDocumentDeleted('chats/{chatId}/messages/{messageId}', async event => {
+  const { chatId, messageId } = event.params;
+  const db = getFirestore();
+  const chatRef = db.doc(`chats/${chatId}`);
+
+  await Promise.all([deleteRevisions(chatId, messageId), deleteAttachment(chatId, messageId)]);
+
+  await db.runTransaction(async tx => {
+    // Gone when the whole chat is being deleted
+    const chat = (await tx.get(chatRef)).data() as ChatData | undefined;
+    if (!chat || chat.lastMessageId !== messageId) return;
+
+    // Entries deleted along with the chat must not come back
+    const entries = await tx.getAll(...chat.participants.map(uid => db.doc(`users/${uid}/chats/${chatId}`)));
+    const cleared = { lastMessage: '', lastMessageSender: '' };
+
+    tx.update(chatRef, { ...cleared, lastMessageId: FieldValue.delete() });
+    entries.filter(entry => entry.exists).forEach(entry => tx.update(entry.ref, cleared));
+  });
+});
+
+const deleteRevisions = (chatId: string, messageId: string) =>
+  getFirestore().recursiveDelete(getFirestore().collection(`chats/${chatId}/messages/${messageId}/revisions`));
+
+// Attachments live at chats/{chatId}/attachments/{messageId}/{fileName}; nothing there for text messages
+const deleteAttachment = (chatId: string, messageId: string) =>
+  getStorage().bucket().deleteFiles({ prefix: `chats/${chatId}/attachments/${messageId}/` });
+
+// Push the message to the devices registered in users/{uid}.fcmTokens, skipping recipients who muted the chat
+// or blocked the sender
+const notify = async (chatId: string, chat: ChatData, message: MessageData, recipients: string[]) => {
+  const db = getFirestore();
+  const [sender, ...users] = await db.getAll(
+    db.doc(`users/${message.senderId}`),
+    ...recipients.map(uid => db.doc(`users/${uid}`))
+  );
+  const entries = await db.getAll(...recipients.map(uid => db.doc(`users/${uid}/chats/${chatId}`)));
+
+  const senderName: string = sender.get('displayName') || 'New message';
+  const title = chat.type === 'group' ? `${senderName} · ${chat.name || 'Group'}` : senderName;
+  const body = previewOf(message).slice(0, NOTIFICATION_BODY_LENGTH);
+
+  await Promise.all(users.map((user, i) => {
+    const blocked: string[] = user.get('blockedUsers') || [];
+    if (entries[i].get('isMuted') === true || blocked.includes(message.senderId)) return;
+    return sendToDevices(user, title, body, chatId);
+  }));
+};
+
+const sendToDevices = async (user: DocumentSnapshot, title: string, body: string, chatId: string) => {
+  const tokens: string[] = user.get('fcmTokens') || [];
+  if (tokens.length === 0) return;
+
+  const response = await getMessaging().sendEachForMulticast({
+    tokens,
+    notification: { title, body },
+    data: { chatId }
+  });
+
+  // Forget devices that uninstalled the app or whose registration expired
+  const stale = tokens.filter((_, i) => STALE_TOKEN_ERRORS.includes(response.responses[i].error?.code || ''));
+  if (stale.length > 0) await user.ref.update({ fcmTokens: FieldValue.arrayRemove(...stale) });
+};
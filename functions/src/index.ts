@@ -0,0 +1,5 @@
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { onChatWritten, onMessageCreated, onMessageDeleted, onMessageUpdated } from './fanout';
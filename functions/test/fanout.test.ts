@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { deleteApp, getApp, initializeApp } from 'firebase-admin/app';
+import { QueryDocumentSnapshot, Timestamp, getFirestore } from 'firebase-admin/firestore';
+import { onMessageCreated } from '../src/fanout';
+
+// Runs the trigger handlers directly against the Firestore emulator (`npm run test:emulator`)
+const PROJECT_ID = 'demo-czat';
+const hasFirestoreEmulator = !!process.env.FIRESTORE_EMULATOR_HOST;
+
+type CreatedEvent = Parameters<typeof onMessageCreated.run>[0];
+
+// The event Firestore would deliver for the creation of this message
+const createdEvent = async (chatId: string, messageId: string): Promise<CreatedEvent> => {
+  const document = `chats/${chatId}/messages/${messageId}`;
+  const snapshot = await getFirestore().doc(document).get();
+  return {
+    specversion: '1.0',
+    id: `${messageId}-created`,
+    source: `//firestore.googleapis.com/projects/${PROJECT_ID}/databases/(default)`,
+    type: 'google.cloud.firestore.document.v1.created',
+    time: new Date().toISOString(),
+    location: 'nam5',
+    project: PROJECT_ID,
+    database: '(default)',
+    namespace: '(default)',
+    document,
+    params: { chatId, messageId },
+    data: snapshot as QueryDocumentSnapshot
+  };
+};
+
+describe.skipIf(!hasFirestoreEmulator)('onMessageCreated', () => {
+  const db = () => getFirestore();
+
+  // The handlers use the default app, which index.ts initializes in production
+  beforeAll(() => {
+    initializeApp({ projectId: PROJECT_ID });
+  });
+
+  afterAll(() => deleteApp(getApp()));
+
+  beforeEach(async () => {
+    await db().recursiveDelete(db().collection('chats'));
+    await db().recursiveDelete(db().collection('users'));
+    await db().doc('chats/direct').set({ type: 'direct', participants: ['alice', 'bob'] });
+    await db().doc('chats/direct/messages/m1').set({
+      senderId: 'alice',
+      receiverId: 'bob',
+      text: 'hello',
+      type: 'text',
+      createdAt: Timestamp.now()
+    });
+  });
+
+  it('fans a message out to every participant', async () => {
+    await onMessageCreated.run(await createdEvent('direct', 'm1'));
+
+    const [chat, aliceEntry, bobEntry, message] = await Promise.all([
+      db().doc('chats/direct').get(),
+      db().doc('users/alice/chats/direct').get(),
+      db().doc('users/bob/chats/direct').get(),
+      db().doc('chats/direct/messages/m1').get()
+    ]);
+    expect(chat.get('lastMessage')).toBe('hello');
+    expect(chat.get('lastMessageId')).toBe('m1');
+    expect(aliceEntry.get('unreadCount')).toBe(0);
+    expect(bobEntry.get('unreadCount')).toBe(1);
+    expect(bobEntry.get('lastMessage')).toBe('hello');
+    expect(message.get('fannedOutAt')).toBeInstanceOf(Timestamp);
+  });
+
+  it('counts a redelivered event only once', async () => {
+    const event = await createdEvent('direct', 'm1');
+    await onMessageCreated.run(event);
+    const fannedOutAt = (await db().doc('chats/direct/messages/m1').get()).get('fannedOutAt');
+
+    // Events are delivered at least once
+    await onMessageCreated.run(event);
+    await Promise.all([onMessageCreated.run(event), onMessageCreated.run(event)]);
+
+    expect((await db().doc('users/bob/chats/direct').get()).get('unreadCount')).toBe(1);
+    expect((await db().doc('chats/direct/messages/m1').get()).get('fannedOutAt')).toEqual(fannedOutAt);
+  });
+
+  it('brings a deleted direct chat back for the member who deleted it, without the old history', async () => {
+    const deletedAt = Timestamp.fromMillis(Date.now() - 60_000);
+    await db().doc('chats/direct').update({ 'deletedBy.bob': deletedAt });
+    await db().doc('users/alice/chats/direct').set({ userId: 'alice', chatId: 'direct', isArchived: true });
+
+    await onMessageCreated.run(await createdEvent('direct', 'm1'));
+
+    const [chat, aliceEntry, bobEntry] = await Promise.all([
+      db().doc('chats/direct').get(),
+      db().doc('users/alice/chats/direct').get(),
+      db().doc('users/bob/chats/direct').get()
+    ]);
+    expect(chat.get('participants')).toEqual(['alice', 'bob']);
+    expect(chat.get('deletedBy.bob')).toBeUndefined();
+    expect(bobEntry.get('clearedAt')).toEqual(deletedAt);
+    expect(bobEntry.get('unreadCount')).toBe(1);
+    expect(bobEntry.get('isArchived')).toBe(false);
+    expect(bobEntry.get('lastMessage')).toBe('hello');
+    // An existing entry keeps its settings
+    expect(aliceEntry.get('isArchived')).toBe(true);
+    expect(aliceEntry.get('clearedAt')).toBeUndefined();
+  });
+});
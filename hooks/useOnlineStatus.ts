@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whether the browser has a network connection, kept current by the online/offline events.
+ * Text messages don't need it (the outbox queues them); uploads do.
+ */
+export function useOnlineStatus() {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return isOnline;
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VoiceRecording } from '../services/chatBackend';
+import { ChatError } from '../services/chatErrors';
+import { MAX_RECORDING_MS, MIN_RECORDING_MS, analyzeRecording, pickRecordingMimeType } from '../utils/voice';
+
+interface Session {
+    recorder: MediaRecorder | null; // null while waiting for the microphone
+    discard: boolean;
+    startedAt: number;
+}
+
+/**
+ * Press-to-record voice messages with MediaRecorder.
+ * start() asks for the microphone and starts recording; stop() finishes and passes the recording to onRecorded;
+ * cancel() throws it away. Recordings shorter than MIN_RECORDING_MS are dropped as accidental taps.
+ * Only uses getUserMedia and MediaRecorder, so headless Chrome can drive it with
+ * --use-fake-ui-for-media-stream --use-fake-device-for-media-stream.
+ */
+export function useVoiceRecorder(onRecorded: (recording: VoiceRecording) => void, onError: (error: ChatError) => void) {
+    const [isRecording, setIsRecording] = useState(false);
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const sessionRef = useRef<Session | null>(null);
+
+    // Latest callbacks, so a recording that finishes after a re-render reports to the current ones
+    const callbacksRef = useRef({ onRecorded, onError });
+    callbacksRef.current = { onRecorded, onError };
+
+    const finish = useCallback((discard: boolean) => {
+        const session = sessionRef.current;
+        if (!session) return;
+
+        sessionRef.current = null;
+        session.discard = discard;
+        setIsRecording(false);
+        // Released before the microphone was granted: start() drops the stream when it arrives
+        if (session.recorder?.state === 'recording') session.recorder.stop();
+    }, []);
+
+    const stop = useCallback(() => finish(false), [finish]);
+    const cancel = useCallback(() => finish(true), [finish]);
+
+    const start = useCallback(async () => {
+        if (sessionRef.current) return;
+        // Insecure origins have no mediaDevices; some older browsers have no MediaRecorder
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices) {
+            callbacksRef.current.onError({ code: 'UNKNOWN' });
+            return;
+        }
+
+        const session: Session = { recorder: null, discard: false, startedAt: Date.now() };
+        sessionRef.current = session;
+        setElapsedMs(0);
+        setIsRecording(true);
+
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (err) {
+            console.warn("Microphone unavailable", err);
+            if (sessionRef.current === session) finish(true);
+            const denied = err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError');
+            callbacksRef.current.onError(denied ? { code: 'PERMISSION_DENIED', reason: 'microphone' } : { code: 'UNKNOWN' });
+            return;
+        }
+
+        const releaseMicrophone = () => stream.getTracks().forEach(track => track.stop());
+        if (sessionRef.current !== session) {
+            releaseMicrophone();
+            return;
+        }
+
+        const chunks: Blob[] = [];
+        const recorder = new MediaRecorder(stream, { mimeType: pickRecordingMimeType() });
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = async () => {
+            releaseMicrophone();
+            const recordedMs = Date.now() - session.startedAt;
+            if (session.discard || recordedMs < MIN_RECORDING_MS) return;
+
+            const blob = new Blob(chunks, { type: recorder.mimeType });
+            const { durationMs, waveform } = await analyzeRecording(blob, recordedMs);
+            callbacksRef.current.onRecorded({ blob, durationMs, waveform });
+        };
+
+        // Time spent waiting for the permission prompt doesn't count
+        session.startedAt = Date.now();
+        session.recorder = recorder;
+        recorder.start();
+    }, [finish]);
+
+    // Elapsed time for the UI; long recordings stop and send by themselves
+    useEffect(() => {
+        if (!isRecording) return;
+        const timer = setInterval(() => {
+            const elapsed = Date.now() - (sessionRef.current?.startedAt || Date.now());
+            setElapsedMs(elapsed);
+            if (elapsed >= MAX_RECORDING_MS) stop();
+        }, 200);
+        return () => clearInterval(timer);
+    }, [isRecording, stop]);
+
+    // Leaving the screen mid-recording discards it and frees the microphone
+    useEffect(() => cancel, [cancel]);
+
+    return { isRecording, elapsedMs, start, stop, cancel };
+}
+
+export default useVoiceRecorder;
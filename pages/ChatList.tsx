@@ -3,6 +3,11 @@ import { useNavigate } from 'react-router-dom';
 import { formatDistanceToNow, format } from 'date-fns';
 import { Chat, User, Message } from '../types';
 import { chatService } from '../services/chatService';
+import { describeError } from '../utils/errorMessages';
+import { renderMarkdownInline } from '../utils/markdown';
+import { CHAT_PAGE_SIZE } from '../services/chatBackend';
+import { isUserOnline, usePresenceClock } from '../services/presence';
+import { describeTyping, getTypingUserIds, useTypingClock } from '../services/typing';
 import Avatar from '../components/Avatar';
 import CreateGroupModal from '../components/CreateGroupModal';
 import { Search, LogOut, UserCircle, UserPlus, X, Moon, Sun, Users, Pin, VolumeX, MessageSquare, Archive } from 'lucide-react';
@@ -19,20 +24,42 @@ const ChatList = () => {
   const [isSearching, setIsSearching] = useState(false);
   const [isCreateGroupOpen, setIsCreateGroupOpen] = useState(false);
   const [view, setView] = useState<'active' | 'archived'>('active');
+  const [chatLimit, setChatLimit] = useState(CHAT_PAGE_SIZE);
+  const [hasMoreChats, setHasMoreChats] = useState(false);
+  const [archivedCount, setArchivedCount] = useState<{ count: number; hasMore: boolean } | null>(null);
 
   const navigate = useNavigate();
   const { logout, user: currentUser } = React.useContext(AuthContext);
   const { theme, toggleTheme } = useTheme();
+  usePresenceClock();
+  // Typing previews go away when they expire, not on the next presence tick
+  useTypingClock(chats, currentUser?.userId);
 
-  // Real-time listener for chats
+  // Real-time listener for chats: one page of the current tab, filtered and ordered by the backend
   useEffect(() => {
-    const unsubscribe = chatService.subscribeToChats((updatedChats) => {
+    const unsubscribe = chatService.subscribeToChats((updatedChats, hasMore) => {
       setChats(updatedChats);
+      setHasMoreChats(hasMore);
       setLoading(false);
-    });
+    }, { archived: view === 'archived', limit: chatLimit });
+    return () => unsubscribe();
+  }, [view, chatLimit]);
+
+  // The Archived tab shows its size from either tab, so it gets a listener of its own
+  useEffect(() => {
+    const unsubscribe = chatService.subscribeToChats((archived, hasMore) => {
+      setArchivedCount({ count: archived.length, hasMore });
+    }, { archived: true });
     return () => unsubscribe();
   }, []);
 
+  const switchView = (next: 'active' | 'archived') => {
+    if (next === view) return;
+    setView(next);
+    setChatLimit(CHAT_PAGE_SIZE);
+    setLoading(true);
+  };
+
   // Handle Global Search (Users + Messages)
   useEffect(() => {
     const delayDebounceFn = setTimeout(async () => {
@@ -65,19 +92,15 @@ const ChatList = () => {
   };
 
   const handleStartChat = async (otherUserId: string) => {
-    try {
-      const chatId = await chatService.createChat(otherUserId);
-      setSearchTerm(''); // Clear search
-      navigate(`/chat/${chatId}`);
-    } catch (error) {
-      console.error("Failed to start chat", error);
+    const result = await chatService.createChat(otherUserId);
+    if (!result.success) {
+      alert(describeError(result.error));
+      return;
     }
+    setSearchTerm(''); // Clear search
+    navigate(`/chat/${result.data}`);
   };
 
-  const filteredChats = chats.filter(chat =>
-    view === 'active' ? !chat.isArchived : chat.isArchived
-  );
-
   return (
     <div className="min-h-screen bg-white dark:bg-slate-950 flex flex-col transition-colors duration-200 uppercase-no-more">
       {/* Header */}
@@ -108,16 +131,16 @@ const ChatList = () => {
         {/* View Tabs */}
         <div className="flex gap-4 mb-4 text-sm font-medium">
           <button
-            onClick={() => setView('active')}
+            onClick={() => switchView('active')}
             className={view === 'active' ? "text-blue-600 border-b-2 border-blue-600 pb-1" : "text-slate-500 pb-1"}
           >
             Active
           </button>
           <button
-            onClick={() => setView('archived')}
+            onClick={() => switchView('archived')}
             className={view === 'archived' ? "text-blue-600 border-b-2 border-blue-600 pb-1" : "text-slate-500 pb-1"}
           >
-            Archived ({chats.filter(c => c.isArchived).length})
+            Archived{archivedCount && archivedCount.count > 0 && ` (${archivedCount.count}${archivedCount.hasMore ? '+' : ''})`}
           </button>
         </div>
 
@@ -196,7 +219,7 @@ const ChatList = () => {
                             >
                               <div className="flex-1 min-w-0">
                                 <p className="text-sm text-slate-900 dark:text-white line-clamp-2">
-                                  {msg.text}
+                                  {renderMarkdownInline(msg.text)}
                                 </p>
                                 <p className="text-[10px] text-slate-500 mt-1">
                                   {format(new Date(msg.createdAt), 'MMM d, h:mm a')}
@@ -235,7 +258,7 @@ const ChatList = () => {
               </div>
             ))}
           </div>
-        ) : filteredChats.length === 0 ? (
+        ) : chats.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-slate-500 px-6 text-center py-20 opacity-60">
             <MessageSquare className="w-16 h-16 mb-4 text-slate-200 dark:text-slate-800" />
             <p className="font-medium">{view === 'active' ? 'No active messages' : 'Archive is empty'}</p>
@@ -243,11 +266,11 @@ const ChatList = () => {
           </div>
         ) : (
           <ul className="divide-y divide-slate-50 dark:divide-slate-900">
-            {filteredChats.map((chat) => {
+            {chats.map((chat) => {
               const displayName = chat.type === 'group' ? chat.name : chat.otherUser?.displayName;
               const photoURL = chat.type === 'group' ? undefined : chat.otherUser?.photoURL;
-              const isOnline = chat.type === 'group' ? false : chat.otherUser?.isOnline;
-              const typingCount = Object.values(chat.typingUsers || {}).filter(t => t).length;
+              const isOnline = chat.type === 'group' ? false : isUserOnline(chat.otherUser);
+              const typingLabel = describeTyping(chat, getTypingUserIds(chat, currentUser?.userId));
 
               return (
                 <li key={chat.chatId} className="group/item relative">
@@ -280,13 +303,13 @@ const ChatList = () => {
 
                       <div className="flex justify-between items-center">
                         <div className="text-sm truncate pr-2">
-                          {typingCount > 0 ? (
+                          {typingLabel ? (
                             <span className="text-blue-600 dark:text-blue-400 font-medium animate-pulse">
-                              {chat.type === 'group' ? `${typingCount} typing...` : 'Typing...'}
+                              {typingLabel}
                             </span>
                           ) : (
                             <p className={chat.unreadCount ? 'text-slate-900 dark:text-gray-100 font-bold' : 'text-slate-500 dark:text-slate-400'}>
-                              {chat.lastMessageSender === currentUser?.userId && <span className="text-slate-400 font-normal mr-1">You:</span>}
+                              {chat.lastMessage && chat.lastMessageSender === currentUser?.userId && <span className="text-slate-400 font-normal mr-1">You:</span>}
                               {chat.lastMessage || <span className='italic text-slate-400'>No messages yet</span>}
                             </p>
                           )}
@@ -333,6 +356,16 @@ const ChatList = () => {
                 </li>
               );
             })}
+            {hasMoreChats && (
+              <li className="p-4 text-center">
+                <button
+                  onClick={() => setChatLimit(limit => limit + CHAT_PAGE_SIZE)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                >
+                  Show more chats
+                </button>
+              </li>
+            )}
           </ul>
         )}
       </div>
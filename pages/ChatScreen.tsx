@@ -1,107 +1,238 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { format, isToday, isYesterday } from 'date-fns';
-import { Chat, Message, MessageStatus, User } from '../types';
+import { format, formatDistanceToNow, isToday, isYesterday } from 'date-fns';
+import { Attachment, Chat, Message, MessageStatus } from '../types';
 import { chatService } from '../services/chatService';
+import { MessagePage, UploadOptions, VoiceRecording } from '../services/chatBackend';
+import { outbox } from '../services/outbox';
+import { isUserOnline, usePresenceClock } from '../services/presence';
+import { describeTyping, useTypingNotifier, useTypingUserIds } from '../services/typing';
 import Avatar from '../components/Avatar';
 import ForwardModal from '../components/ForwardModal';
+import ReceiptsModal from '../components/ReceiptsModal';
+import DeleteMessageModal from '../components/DeleteMessageModal';
+import EditHistoryModal from '../components/EditHistoryModal';
+import { DeleteMode } from '../services/chatBackend';
+import ExpiryCountdown from '../components/ExpiryCountdown';
 import GroupInfoPanel from '../components/GroupInfoPanel';
-import { ArrowLeft, Send, Phone, Video, Info, Check, CheckCheck, Reply, SmilePlus, X, Trash2, Pencil, Search, Forward, MoreVertical, Timer, Ban, Eraser } from 'lucide-react';
+import AttachmentView from '../components/AttachmentView';
+import ImageLightbox from '../components/ImageLightbox';
+import VoicePlayer from '../components/VoicePlayer';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { ArrowLeft, Send, Phone, Video, Info, Check, CheckCheck, Reply, SmilePlus, X, Trash2, Pencil, Search, Forward, MoreVertical, Timer, Ban, Eraser, AlertCircle, RotateCw, Eye, Paperclip, Mic } from 'lucide-react';
 import { clsx } from 'clsx';
-import { doc, getDoc, onSnapshot } from 'firebase/firestore';
-import { db } from '../services/firebaseConfig';
-import { parseMarkdown } from '../utils/markdown';
+import { renderMarkdown, renderMarkdownInline } from '../utils/markdown';
+import { getReceiptStatus } from '../utils/receipts';
+import { describeError } from '../utils/errorMessages';
+import { ActionResult, ChatError } from '../services/chatErrors';
+import { DISAPPEARING_TIMER_OPTIONS, formatTimer, formatTimerShort } from '../utils/disappearing';
+import { isWithinWindow, policyOf } from '../utils/messagePolicy';
+import { ACCEPTED_MIME_TYPES, messageSummary } from '../utils/attachments';
+import { formatDuration } from '../utils/voice';
 import EmojiPicker from '../components/EmojiPicker';
 
+// Client-side cleanup of self-destructed messages
+const withoutExpired = (messages: Message[]) => {
+  const now = Date.now();
+  return messages.filter(m => !m.expiresAt || new Date(m.expiresAt).getTime() > now);
+};
+
+// The live listener only covers the latest page: keep everything older than where it starts
+// and replace the rest, so edits and deletions inside the window still come through.
+const mergeLiveWindow = (current: Message[], live: MessagePage) => {
+  if (!live.hasOlder || !live.cursor) return live.messages;
+  const windowStart = live.cursor.getTime();
+  return [...current.filter(m => new Date(m.createdAt).getTime() < windowStart), ...live.messages];
+};
+
+// Attachment being uploaded from this screen
+interface Upload {
+  id: string;
+  chatId: string;
+  name: string;
+  progress: number; // 0 to 1
+  controller: AbortController;
+}
+
 const ChatScreen = () => {
   const { chatId } = useParams<{ chatId: string }>();
   const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([]);
+  // Messages still in the outbox (SENDING or FAILED)
+  const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
   const [text, setText] = useState('');
   const [replyingTo, setReplyingTo] = useState<Message | null>(null);
   const [chatInfo, setChatInfo] = useState<Chat | undefined>(undefined);
   const [showInfo, setShowInfo] = useState(false);
-  const [selfDestructMinutes, setSelfDestructMinutes] = useState<number | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
 
+  // Pagination state
+  const [hasOlder, setHasOlder] = useState(false);
+  // Where the next older page starts: the oldest stored message loaded so far, hidden ones included
+  const olderCursorRef = useRef<Date | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
   // Edit message state
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
 
   // Forward message state
   const [forwardingMessage, setForwardingMessage] = useState<Message | null>(null);
 
+  // "Seen by" details
+  const [receiptsMessage, setReceiptsMessage] = useState<Message | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [viewingImage, setViewingImage] = useState<Attachment | null>(null);
+
+  // Attachments on their way to Storage; they keep going if the user switches chats
+  const [uploads, setUploads] = useState<Upload[]>([]);
+
   // Toast notification for errors
   const [toast, setToast] = useState<{ message: string; type: 'error' | 'success' } | null>(null);
+  const showError = (error: ChatError) => setToast({ message: describeError(error), type: 'error' });
+  // Bulk deletion in progress (clear history / delete chat)
+  const [deletion, setDeletion] = useState<{ deleted: number; total: number } | null>(null);
+  const trackDeletion = (deleted: number, total: number) => setDeletion({ deleted, total });
 
   const bottomRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Scroll metrics captured before prepending a page, restored after render
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const currentUser = chatService.getCurrentUser();
+  usePresenceClock();
+  const typingUserIds = useTypingUserIds(chatInfo, currentUser?.userId);
+  const typingNotifier = useTypingNotifier(chatId);
 
   // Fetch Chat Info
   useEffect(() => {
     if (!chatId || !currentUser) return;
 
-    const unsubscribe = onSnapshot(doc(db, 'chats', chatId), async (chatSnap) => {
-      if (chatSnap.exists()) {
-        const data = chatSnap.data();
-        const type = data.type || 'direct';
+    const unsubscribe = chatService.subscribeToChat(chatId, setChatInfo);
 
-        let otherUser: User | undefined;
-        let groupMembers: User[] = [];
+    return () => unsubscribe();
+  }, [chatId]);
 
-        if (type === 'direct') {
-          const otherUserId = data.participants.find((p: string) => p !== currentUser.userId);
-          if (otherUserId) {
-            const userSnap = await getDoc(doc(db, 'users', otherUserId));
-            if (userSnap.exists()) {
-              otherUser = { userId: otherUserId, ...userSnap.data() } as User;
-            }
-          }
-        } else {
-          // Resolve group members
-          const memberPromises = data.participants.map(async (uid: string) => {
-            const userSnap = await getDoc(doc(db, 'users', uid));
-            return userSnap.exists() ? { userId: uid, ...userSnap.data() } as User : null;
-          });
-          const resolved = await Promise.all(memberPromises);
-          groupMembers = resolved.filter((u): u is User => u !== null);
-        }
-
-        setChatInfo({
-          chatId: chatSnap.id,
-          ...data,
-          type,
-          otherUser,
-          groupMembers
-        } as Chat);
+  // Messages Real-time Listener
+  useEffect(() => {
+    if (!chatId) return;
+
+    setMessages([]);
+    setHasOlder(true);
+    olderCursorRef.current = null;
+    lastMessageIdRef.current = undefined;
+
+    // Subscribe to the latest page
+    const unsubscribe = chatService.subscribeToMessages(chatId, (page) => {
+      setMessages(prev => withoutExpired(mergeLiveWindow(prev, page)));
+      if (!page.hasOlder) setHasOlder(false);
+      // Older pages already loaded reach further back than the live window
+      if (!olderCursorRef.current || (page.cursor && page.cursor < olderCursorRef.current)) {
+        olderCursorRef.current = page.cursor;
       }
     });
 
     return () => unsubscribe();
   }, [chatId]);
 
-  // Messages Real-time Listener
+  // Mark read whenever a message from someone else is on screen: on arrival while the tab is visible,
+  // or when the tab becomes visible again
+  const latestIncomingId = [...messages].reverse().find(m => m.senderId !== currentUser?.userId)?.messageId;
   useEffect(() => {
     if (!chatId) return;
 
-    // Mark read
-    chatService.markMessagesAsRead(chatId);
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      chatService.markMessagesAsRead(chatId).then(res => {
+        if (!res.success) console.warn("Failed to mark messages as read", res.error);
+      });
+    };
+    markRead();
 
-    // Subscribe
-    const unsubscribe = chatService.subscribeToMessages(chatId, (newMessages) => {
-      // Client-side cleanup of self-destructed messages
-      const now = Date.now();
-      const activeMessages = newMessages.filter(m => !m.expiresAt || new Date(m.expiresAt).getTime() > now);
-      setMessages(activeMessages);
-    });
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [chatId, latestIncomingId]);
 
-    return () => unsubscribe();
+  // Outbox listener
+  useEffect(() => {
+    if (!chatId) return;
+    setPendingMessages([]);
+    return outbox.subscribe(chatId, setPendingMessages);
   }, [chatId]);
 
-  // Auto-scroll on new messages
+  // Drop self-destructing messages at the moment they expire
+  const nextExpiry = Math.min(
+    ...[...messages, ...pendingMessages]
+      .filter(m => m.expiresAt)
+      .map(m => new Date(m.expiresAt!).getTime())
+  );
+  useEffect(() => {
+    if (!isFinite(nextExpiry)) return;
+    const timer = setTimeout(() => {
+      setMessages(prev => withoutExpired(prev));
+      setPendingMessages(prev => withoutExpired(prev));
+    }, Math.max(0, nextExpiry - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextExpiry]);
+
+  // Server copies win once they arrive; the outbox entry goes away right after
+  const sentIds = new Set(messages.map(m => m.messageId));
+  const displayedMessages = withoutExpired([...messages, ...pendingMessages.filter(m => !sentIds.has(m.messageId))]);
+
+  // Keep the viewport stable when older pages are prepended; follow the bottom when new messages arrive
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const anchor = scrollAnchorRef.current;
+
+    if (list && anchor) {
+      list.scrollTop = list.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      scrollAnchorRef.current = null;
+      return;
+    }
+
+    const lastId = displayedMessages[displayedMessages.length - 1]?.messageId;
+    if (lastId !== lastMessageIdRef.current) {
+      bottomRef.current?.scrollIntoView({ behavior: lastMessageIdRef.current ? 'smooth' : 'auto' });
+    }
+    lastMessageIdRef.current = lastId;
+  }, [messages, pendingMessages]);
+
+  const loadOlder = async () => {
+    const cursor = olderCursorRef.current;
+    if (!chatId || loadingOlder || !hasOlder || !cursor) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await chatService.loadOlderMessages(chatId, cursor);
+      if (!page.hasOlder) setHasOlder(false);
+      if (page.cursor) olderCursorRef.current = page.cursor;
+
+      if (listRef.current) {
+        scrollAnchorRef.current = { scrollHeight: listRef.current.scrollHeight, scrollTop: listRef.current.scrollTop };
+      }
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.messageId));
+        return withoutExpired([...page.messages.filter(m => !known.has(m.messageId)), ...prev]);
+      });
+    } catch (err) {
+      console.error("Failed to load older messages", err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 80) loadOlder();
+  };
+
+  // Pages made up mostly of messages deleted for me may not fill the screen, leaving nothing to scroll
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    const list = listRef.current;
+    if (list && list.scrollHeight <= list.clientHeight) loadOlder();
+  }, [messages, hasOlder]);
 
   // Auto-hide toast
   useEffect(() => {
@@ -132,21 +263,16 @@ const ChatScreen = () => {
 
     const tempText = text.trim();
     setText('');
+    typingNotifier.stop();
 
     // If editing, update the message
     if (editingMessage) {
-      try {
-        const result = await chatService.editMessage(chatId, editingMessage.messageId, tempText);
-        if (!result.success) {
-          setToast({ message: result.error || 'Failed to edit message', type: 'error' });
-          setText(tempText);
-        } else {
-          setToast({ message: 'Message edited', type: 'success' });
-        }
-      } catch (err) {
-        console.error("Failed to edit", err);
+      const result = await chatService.editMessage(chatId, editingMessage.messageId, tempText);
+      if (!result.success) {
+        showError(result.error);
         setText(tempText);
-        setToast({ message: 'Failed to edit message', type: 'error' });
+      } else {
+        setToast({ message: 'Message edited', type: 'success' });
       }
       setEditingMessage(null);
       return;
@@ -154,25 +280,78 @@ const ChatScreen = () => {
 
     setReplyingTo(null);
 
-    try {
-      const receiverId = chatInfo.type === 'direct'
-        ? chatInfo.otherUser?.userId || ''
-        : 'group';
+    // Shown immediately from the outbox, which keeps retrying until the backend accepts it.
+    // The chat's disappearing timer is applied by the backend.
+    await outbox.send({ chatId, text: tempText, receiverId: receiverIdFor(chatInfo), replyTo: replyDataFor(replyingTo) });
+  };
 
-      const replyData = replyingTo ? {
-        messageId: replyingTo.messageId,
-        text: replyingTo.text,
-        senderDisplayName: replyingTo.senderId === currentUser?.userId ? 'You' : getUserDisplayName(replyingTo.senderId)
-      } : undefined;
+  const receiverIdFor = (chat: Chat) => chat.type === 'direct' ? chat.otherUser?.userId || '' : 'group';
 
-      const expiry = selfDestructMinutes ? new Date(Date.now() + selfDestructMinutes * 60000) : undefined;
+  const replyDataFor = (message: Message | null) => message ? {
+    messageId: message.messageId,
+    text: messageSummary(message),
+    senderDisplayName: message.senderId === currentUser?.userId ? 'You' : getUserDisplayName(message.senderId)
+  } : undefined;
 
-      await chatService.sendMessage(chatId, tempText, receiverId, replyData, expiry);
-    } catch (err) {
-      console.error("Failed to send", err);
-      setText(tempText);
-      setToast({ message: 'Failed to send message', type: 'error' });
-    }
+  // Attachments and voice messages skip the outbox: an upload needs the connection while it runs.
+  // Progress is shown above the composer, with a button to cancel.
+  const runUpload = async (name: string, send: (options: UploadOptions) => Promise<ActionResult>) => {
+    if (!chatId) return;
+    const upload: Upload = { id: `${Date.now()}-${Math.random()}`, chatId, name, progress: 0, controller: new AbortController() };
+    setUploads(prev => [...prev, upload]);
+
+    const result = await send({
+      onProgress: progress => setUploads(prev => prev.map(u => u.id === upload.id ? { ...u, progress } : u)),
+      signal: upload.controller.signal
+    });
+
+    setUploads(prev => prev.filter(u => u.id !== upload.id));
+    if (!result.success && result.error.code !== 'CANCELLED') showError(result.error);
+  };
+
+  // Each picked file is sent as its own message
+  const handleAttach = (files: FileList | null) => {
+    if (!files || !chatId || !chatInfo) return;
+
+    const replyTo = replyDataFor(replyingTo);
+    setReplyingTo(null);
+
+    Array.from(files).forEach(file => runUpload(file.name, options =>
+      chatService.sendAttachment(chatId, file, receiverIdFor(chatInfo), replyTo, options)));
+  };
+
+  const handleVoiceRecorded = (recording: VoiceRecording) => {
+    if (!chatId || !chatInfo) return;
+
+    const replyTo = replyDataFor(replyingTo);
+    setReplyingTo(null);
+
+    runUpload('Voice message', options =>
+      chatService.sendVoiceMessage(chatId, recording, receiverIdFor(chatInfo), replyTo, options));
+  };
+
+  const voiceRecorder = useVoiceRecorder(handleVoiceRecorded, showError);
+  // Text goes through the outbox and can be typed offline; attachments and voice messages upload right away
+  const canUpload = useOnlineStatus();
+
+  // Recipients only; the first play clears the unplayed dot for everyone watching
+  const handleVoicePlayed = (msg: Message) => {
+    if (!chatId || msg.senderId === currentUser?.userId || msg.playedBy?.includes(currentUser?.userId || '')) return;
+    chatService.markVoicePlayed(chatId, msg.messageId).then(res => {
+      if (!res.success) console.warn("Failed to mark voice message as played", res.error);
+    });
+  };
+
+  const disappearingMinutes = chatInfo?.disappearingMinutes ?? null;
+  const canChangeTimer = chatInfo?.type === 'direct' || (!!currentUser && !!chatInfo?.admins?.includes(currentUser.userId));
+
+  const handleCycleTimer = async () => {
+    if (!chatId) return;
+    const options = [null, ...DISAPPEARING_TIMER_OPTIONS];
+    const next = options[(options.indexOf(disappearingMinutes) + 1) % options.length];
+
+    const result = await chatService.setDisappearingTimer(chatId, next);
+    if (!result.success) showError(result.error);
   };
 
   const getStatusIcon = (status: MessageStatus) => {
@@ -185,6 +364,8 @@ const ChatScreen = () => {
         return <CheckCheck className="w-3.5 h-3.5 text-slate-400" />;
       case MessageStatus.READ:
         return <CheckCheck className="w-3.5 h-3.5 text-blue-500" />;
+      case MessageStatus.FAILED:
+        return <AlertCircle className="w-3.5 h-3.5 text-red-300" />;
       default:
         return null;
     }
@@ -196,28 +377,38 @@ const ChatScreen = () => {
     if (!msg) return;
 
     const hasReacted = msg.reactions?.[emoji]?.includes(currentUser.userId);
-    if (hasReacted) {
-      await chatService.removeReaction(chatId, messageId, emoji);
-    } else {
-      await chatService.addReaction(chatId, messageId, emoji);
-    }
+    const result = hasReacted
+      ? await chatService.removeReaction(chatId, messageId, emoji)
+      : await chatService.addReaction(chatId, messageId, emoji);
+    if (!result.success) showError(result.error);
   };
 
-  const handleDelete = async (messageId: string) => {
+  const handleDelete = async (messageId: string, mode: DeleteMode) => {
     if (!chatId) return;
-    const result = await chatService.deleteMessage(chatId, messageId);
-    if (!result.success) {
-      setToast({ message: result.error || 'Failed to delete message', type: 'error' });
-    }
+    const result = await chatService.deleteMessage(chatId, messageId, mode);
+    if (!result.success) showError(result.error);
   };
 
-  const handleStartEdit = (msg: Message) => {
-    const createdAt = new Date(msg.createdAt);
-    const timeDiff = Date.now() - createdAt.getTime();
-    const fifteenMinutes = 15 * 60 * 1000;
+  // Same limits as deleteMessage: own messages, within the chat's delete window
+  const policy = policyOf(chatInfo);
+  const canDeleteForEveryone = (msg: Message) =>
+    msg.senderId === currentUser?.userId && !msg.deletedAt && isWithinWindow(policy.deleteWindowMinutes, msg.createdAt);
+
+  // Direct chats only clear your own view; removing the other person's messages is for group admins
+  const handleClearHistory = async () => {
+    if (!chatId) return;
+    if (!window.confirm('Clear all messages from your view? The other person still sees them.')) return;
 
-    if (timeDiff > fifteenMinutes) {
-      setToast({ message: 'Messages can only be edited within 15 minutes', type: 'error' });
+    setShowInfo(false);
+    const res = await chatService.clearChatHistory(chatId, 'me', trackDeletion);
+    setDeletion(null);
+    if (res.success) setToast({ message: 'History cleared', type: 'success' });
+    else showError(res.error);
+  };
+
+  const handleStartEdit = (msg: Message) => {
+    if (!isWithinWindow(policy.editWindowMinutes, msg.createdAt)) {
+      showError({ code: 'TIME_WINDOW_EXPIRED', reason: 'edit', windowMinutes: policy.editWindowMinutes ?? undefined });
       return;
     }
 
@@ -241,11 +432,16 @@ const ChatScreen = () => {
   if (!chatId) return null;
 
   const headerTitle = chatInfo?.type === 'group' ? chatInfo.name : chatInfo?.otherUser?.displayName;
-  const headerSub = chatInfo?.type === 'group'
-    ? `${chatInfo.participants.length} members`
-    : (chatInfo?.typingUsers?.[chatInfo.otherUser?.userId || '']
-      ? <span className="text-blue-600 dark:text-blue-400 font-medium animate-pulse">Typing...</span>
-      : (chatInfo?.otherUser?.isOnline ? 'Active now' : 'Offline'));
+  const typingLabel = chatInfo ? describeTyping(chatInfo, typingUserIds) : null;
+  const headerSub = typingLabel
+    ? <span className="text-blue-600 dark:text-blue-400 font-medium animate-pulse">{typingLabel}</span>
+    : chatInfo?.type === 'group'
+      ? `${chatInfo.participants.length} members`
+      : (isUserOnline(chatInfo?.otherUser)
+        ? 'Active now'
+        : chatInfo?.otherUser && chatInfo.otherUser.privacySettings?.showLastSeen !== 'nobody'
+          ? `Last seen ${formatDistanceToNow(new Date(chatInfo.otherUser.lastSeen), { addSuffix: true })}`
+          : 'Offline');
 
   return (
     <div className="flex h-screen bg-slate-50 dark:bg-slate-950 transition-colors duration-200 overflow-hidden">
@@ -259,6 +455,11 @@ const ChatScreen = () => {
             {toast.message}
           </div>
         )}
+        {deletion && !toast && deletion.total > 0 && (
+          <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg shadow-lg text-sm font-medium bg-blue-600 text-white animate-fade-in">
+            Deleting messages… {deletion.deleted} / {deletion.total}
+          </div>
+        )}
 
         {/* Header */}
         <header className="flex-none bg-white dark:bg-slate-950 border-b border-slate-100 dark:border-slate-800 px-4 py-3 z-20 flex items-center justify-between shadow-sm dark:shadow-slate-900/10">
@@ -274,7 +475,7 @@ const ChatScreen = () => {
               <Avatar
                 name={headerTitle || 'User'}
                 src={chatInfo?.type === 'direct' ? chatInfo?.otherUser?.photoURL : undefined}
-                isOnline={chatInfo?.type === 'direct' ? chatInfo?.otherUser?.isOnline : false}
+                isOnline={chatInfo?.type === 'direct' ? isUserOnline(chatInfo?.otherUser) : false}
                 size="sm"
               />
               <div className="min-w-0 pr-2">
@@ -290,22 +491,21 @@ const ChatScreen = () => {
 
           <div className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
             <button
-              onClick={() => {
-                const durations = [null, 1, 5, 60, 1440];
-                const currentIndex = durations.indexOf(selfDestructMinutes);
-                const nextIndex = (currentIndex + 1) % durations.length;
-                setSelfDestructMinutes(durations[nextIndex]);
-              }}
+              onClick={handleCycleTimer}
+              disabled={!canChangeTimer}
               className={clsx(
-                "p-2 rounded-full transition-all relative group",
-                selfDestructMinutes ? "text-orange-500 bg-orange-50 dark:bg-orange-900/20" : "hover:bg-blue-50 dark:hover:bg-slate-800 text-slate-400"
+                "p-2 rounded-full transition-all relative group disabled:cursor-not-allowed",
+                disappearingMinutes ? "text-orange-500 bg-orange-50 dark:bg-orange-900/20" : "hover:bg-blue-50 dark:hover:bg-slate-800 text-slate-400 disabled:hover:bg-transparent"
               )}
-              title={selfDestructMinutes ? `Self-destruct: ${selfDestructMinutes}m` : "Self-destruct Off"}
+              title={
+                (disappearingMinutes ? `Disappearing messages: ${formatTimer(disappearingMinutes)}` : "Disappearing messages off")
+                + (canChangeTimer ? '' : ' (only admins can change this)')
+              }
             >
               <Timer className="w-5 h-5" />
-              {selfDestructMinutes && (
+              {disappearingMinutes && (
                 <span className="absolute -top-1 -right-1 bg-orange-500 text-white text-[8px] font-black w-4 h-4 rounded-full flex items-center justify-center border-2 border-white dark:border-slate-950">
-                  {selfDestructMinutes >= 60 ? (selfDestructMinutes / 60 + 'h') : selfDestructMinutes}
+                  {formatTimerShort(disappearingMinutes)}
                 </span>
               )}
             </button>
@@ -332,20 +532,20 @@ const ChatScreen = () => {
               {showInfo && chatInfo?.type === 'direct' && (
                 <div className="absolute top-full right-0 mt-1 w-56 bg-white dark:bg-slate-900 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-800 py-2 z-50 animate-bounce-in">
                   <button
-                    onClick={async () => {
-                      if (window.confirm('Clear all messages in this chat? This cannot be undone.')) {
-                        setShowInfo(false);
-                        const res = await chatService.clearChatHistory(chatId);
-                        if (res.success) setToast({ message: 'History cleared', type: 'success' });
-                      }
-                    }}
+                    onClick={handleClearHistory}
                     className="w-full flex items-center gap-3 px-4 py-2.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
                   >
                     <Eraser className="w-4 h-4 text-blue-500" />
-                    <span>Clear History</span>
+                    <span>Clear History for Me</span>
                   </button>
                   <button
-                    onClick={() => { setShowInfo(false); chatInfo.otherUser && chatService.toggleBlockUser(chatInfo.otherUser.userId, true).then(() => setToast({ message: 'User blocked', type: 'success' })); }}
+                    onClick={() => {
+                      setShowInfo(false);
+                      chatInfo.otherUser && chatService.toggleBlockUser(chatInfo.otherUser.userId, true).then(res => {
+                        if (res.success) setToast({ message: 'User blocked', type: 'success' });
+                        else showError(res.error);
+                      });
+                    }}
                     className="w-full flex items-center gap-3 px-4 py-2.5 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
                   >
                     <Ban className="w-4 h-4 text-orange-500" />
@@ -354,9 +554,12 @@ const ChatScreen = () => {
                   <div className="h-px bg-slate-100 dark:bg-slate-800 my-1 mx-2" />
                   <button
                     onClick={async () => {
-                      if (window.confirm('Delete this chat completely? This cannot be undone.')) {
-                        const res = await chatService.deleteChat(chatId);
+                      if (window.confirm('Remove this chat from your list? The other person keeps it until they delete it too.')) {
+                        setShowInfo(false);
+                        const res = await chatService.deleteChat(chatId, trackDeletion);
+                        setDeletion(null);
                         if (res.success) navigate('/');
+                        else showError(res.error);
                       }
                     }}
                     className="w-full flex items-center gap-3 px-4 py-2.5 text-sm font-medium text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
@@ -371,23 +574,44 @@ const ChatScreen = () => {
         </header>
 
         {/* Messages List */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-2">
-          {messages.map((msg, idx) => {
+        <div ref={listRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loadingOlder && (
+            <div className="flex justify-center py-2">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+          {displayedMessages.map((msg, idx) => {
             const isMe = msg.senderId === currentUser?.userId;
-            const showAvatar = !isMe && (idx === messages.length - 1 || messages[idx + 1]?.senderId !== msg.senderId);
-            const showDateSeparator = shouldShowDateSeparator(msg, messages[idx - 1]);
+            const isUnsent = msg.status === MessageStatus.SENDING || msg.status === MessageStatus.FAILED;
+            const showAvatar = !isMe && (idx === displayedMessages.length - 1 || displayedMessages[idx + 1]?.senderId !== msg.senderId);
+            const showDateSeparator = shouldShowDateSeparator(msg, displayedMessages[idx - 1]);
             const senderName = chatInfo?.type === 'group' && !isMe ? getUserDisplayName(msg.senderId) : null;
             const senderAvatar = chatInfo?.groupMembers?.find(m => m.userId === msg.senderId)?.photoURL;
 
+            const dateSeparator = showDateSeparator && (
+              <div className="flex items-center justify-center my-4">
+                <div className="bg-slate-200 dark:bg-slate-800 text-slate-500 dark:text-slate-400 px-3 py-1 rounded-full text-xs font-medium">
+                  {formatDateSeparator(new Date(msg.createdAt))}
+                </div>
+              </div>
+            );
+
+            // Timeline notices (e.g. timer changes) have no bubble or actions
+            if (msg.type === 'system') {
+              return (
+                <React.Fragment key={msg.messageId}>
+                  {dateSeparator}
+                  <div className="flex items-center justify-center gap-1.5 my-2 text-xs text-slate-500 dark:text-slate-400">
+                    <Timer className="w-3.5 h-3.5" />
+                    <span>{getUserDisplayName(msg.senderId)} {msg.text}</span>
+                  </div>
+                </React.Fragment>
+              );
+            }
+
             return (
               <React.Fragment key={msg.messageId}>
-                {showDateSeparator && (
-                  <div className="flex items-center justify-center my-4">
-                    <div className="bg-slate-200 dark:bg-slate-800 text-slate-500 dark:text-slate-400 px-3 py-1 rounded-full text-xs font-medium">
-                      {formatDateSeparator(new Date(msg.createdAt))}
-                    </div>
-                  </div>
-                )}
+                {dateSeparator}
 
                 <div className={clsx("flex w-full animate-fade-in group/message relative", isMe ? "justify-end" : "justify-start")}>
                   <div className={clsx("flex max-w-[85%] md:max-w-[75%] gap-2 relative", isMe ? "flex-row-reverse" : "flex-row")}>
@@ -397,7 +621,7 @@ const ChatScreen = () => {
                       "absolute top-1/2 -translate-y-1/2 flex gap-1 opacity-0 group-hover/message:opacity-100 transition-opacity z-10",
                       isMe ? "right-full mr-2" : "left-full ml-2"
                     )}>
-                      {!msg.deletedAt && (
+                      {!msg.deletedAt && !isUnsent && (
                         <>
                           <button onClick={() => setReplyingTo(msg)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-blue-500 transition-colors">
                             <Reply className="w-3.5 h-3.5" />
@@ -405,21 +629,28 @@ const ChatScreen = () => {
                           <button onClick={() => toggleReaction(msg.messageId, '❤️')} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-red-500 transition-colors">
                             <SmilePlus className="w-3.5 h-3.5" />
                           </button>
-                          {isMe && (
+                          {isMe && !msg.attachment && (
                             <button onClick={() => handleStartEdit(msg)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-blue-500 transition-colors">
                               <Pencil className="w-3.5 h-3.5" />
                             </button>
                           )}
-                          <button onClick={() => setForwardingMessage(msg)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-green-500 transition-colors">
-                            <Forward className="w-3.5 h-3.5" />
-                          </button>
-                          {isMe && (
-                            <button onClick={() => handleDelete(msg.messageId)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-red-600 transition-colors">
-                              <Trash2 className="w-3.5 h-3.5" />
+                          {!msg.attachment && (
+                            <button onClick={() => setForwardingMessage(msg)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-green-500 transition-colors">
+                              <Forward className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                          {isMe && chatInfo?.type === 'group' && (
+                            <button onClick={() => setReceiptsMessage(msg)} title="Seen by" className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-blue-500 transition-colors">
+                              <Eye className="w-3.5 h-3.5" />
                             </button>
                           )}
                         </>
                       )}
+                      {!isUnsent && (
+                        <button onClick={() => setDeletingMessage(msg)} className="p-1.5 rounded-full bg-white dark:bg-slate-800 shadow-sm hover:text-red-600 transition-colors">
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
                     </div>
 
                     {!isMe && (
@@ -429,7 +660,7 @@ const ChatScreen = () => {
                     )}
 
                     <div className={clsx(
-                      "group relative px-4 py-2.5 shadow-sm text-[15px] leading-relaxed",
+                      "group relative min-w-0 px-4 py-2.5 shadow-sm text-[15px] leading-relaxed",
                       isMe ? "bg-blue-600 text-white rounded-2xl rounded-tr-sm" : "bg-white dark:bg-slate-900 text-slate-900 dark:text-white rounded-2xl rounded-tl-sm border border-slate-100 dark:border-slate-800"
                     )}>
                       {senderName && <p className="text-[11px] font-bold text-blue-500 mb-0.5">{senderName}</p>}
@@ -437,7 +668,7 @@ const ChatScreen = () => {
                       {msg.replyTo && (
                         <div className={clsx("mb-2 pl-2 border-l-2 text-xs opacity-80", isMe ? "border-blue-400 text-blue-100" : "border-slate-300 text-slate-500")}>
                           <p className="font-bold">{msg.replyTo.senderDisplayName}</p>
-                          <p className="line-clamp-1">{msg.replyTo.text}</p>
+                          <p className="line-clamp-1">{renderMarkdownInline(msg.replyTo.text)}</p>
                         </div>
                       )}
 
@@ -448,12 +679,26 @@ const ChatScreen = () => {
                         </div>
                       )}
 
+                      {msg.attachment && !msg.deletedAt && (
+                        msg.attachment.kind === 'audio' ? (
+                          <VoicePlayer
+                            attachment={msg.attachment}
+                            isMe={isMe}
+                            // Recipients see their own state; the sender sees whether anyone has listened yet
+                            isUnplayed={isMe ? !msg.playedBy?.length : !msg.playedBy?.includes(currentUser?.userId || '')}
+                            onPlayed={() => handleVoicePlayed(msg)}
+                          />
+                        ) : (
+                          <AttachmentView attachment={msg.attachment} isMe={isMe} onOpenImage={setViewingImage} />
+                        )
+                      )}
+
                       <div className="whitespace-pre-wrap break-words">
                         {msg.deletedAt ? (
                           <span className="italic opacity-60">Message deleted</span>
                         ) : (
                           <>
-                            {parseMarkdown(msg.text)}
+                            {renderMarkdown(msg.text)}
                             {/* Simple Link Preview */}
                             {msg.text.match(/https?:\/\/[^\s]+/g)?.map((url, i) => (
                               <a
@@ -494,15 +739,36 @@ const ChatScreen = () => {
                         isMe ? "justify-end text-blue-100/70" : "text-slate-400"
                       )}>
                         {format(new Date(msg.createdAt), 'h:mm a')}
+                        {msg.isEdited && !msg.deletedAt && (
+                          <button onClick={() => setHistoryMessage(msg)} title="Show edit history" className="hover:underline">
+                            edited
+                          </button>
+                        )}
                         {msg.isEncrypted && <span title="End-to-end encrypted">🔒</span>}
-                        {msg.expiresAt && (
-                          <span className="flex items-center gap-0.5 text-orange-400 font-bold" title="Self-destructing">
-                            <Timer className="w-2.5 h-2.5" />
-                            {Math.max(0, Math.ceil((new Date(msg.expiresAt).getTime() - Date.now()) / 60000))}m
-                          </span>
+                        {msg.expiresAt && <ExpiryCountdown expiresAt={msg.expiresAt} />}
+                        {isMe && currentUser && (
+                          chatInfo?.type === 'group' && !isUnsent ? (
+                            <button onClick={() => setReceiptsMessage(msg)} title="Seen by">
+                              {getStatusIcon(getReceiptStatus(msg, chatInfo, currentUser.userId))}
+                            </button>
+                          ) : (
+                            <span>{getStatusIcon(getReceiptStatus(msg, chatInfo, currentUser.userId))}</span>
+                          )
                         )}
-                        {isMe && <span>{getStatusIcon(msg.status)}</span>}
                       </div>
+
+                      {msg.status === MessageStatus.FAILED && (
+                        <div className="flex items-center justify-end gap-3 mt-1 pt-1 border-t border-white/20 text-[11px] font-medium">
+                          <span className="opacity-80">Not sent</span>
+                          <button onClick={() => outbox.retry(msg.messageId)} className="flex items-center gap-1 hover:underline">
+                            <RotateCw className="w-3 h-3" />
+                            Retry
+                          </button>
+                          <button onClick={() => outbox.discard(msg.messageId)} className="hover:underline">
+                            Discard
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -520,7 +786,7 @@ const ChatScreen = () => {
                 <p className="text-[10px] font-black uppercase tracking-widest text-blue-600">
                   {editingMessage ? 'Editing' : `Replying to ${replyingTo?.senderId === currentUser?.userId ? 'You' : getUserDisplayName(replyingTo?.senderId || '')}`}
                 </p>
-                <p className="text-sm text-slate-600 dark:text-slate-300 truncate">{editingMessage?.text || replyingTo?.text}</p>
+                <p className="text-sm text-slate-600 dark:text-slate-300 truncate">{editingMessage?.text || (replyingTo && renderMarkdownInline(messageSummary(replyingTo)))}</p>
               </div>
               <button onClick={() => { setEditingMessage(null); setReplyingTo(null); if (editingMessage) setText(''); }} className="p-1 text-slate-400 hover:text-slate-600">
                 <X className="w-4 h-4" />
@@ -528,19 +794,60 @@ const ChatScreen = () => {
             </div>
           )}
 
+          {uploads.filter(u => u.chatId === chatId).map(upload => (
+            <div key={upload.id} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-900 px-4 py-2 rounded-2xl mb-2 mx-1">
+              <Paperclip className="w-4 h-4 text-blue-600 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-600 dark:text-slate-300 truncate">{upload.name}</p>
+                <div className="mt-1 h-1 bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                </div>
+              </div>
+              <button onClick={() => upload.controller.abort()} title="Cancel upload" className="p-1 text-slate-400 hover:text-slate-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
           <form onSubmit={handleSend} className="flex items-end gap-2 bg-slate-100 dark:bg-slate-900 rounded-[24px] p-1.5 pl-4 relative border border-slate-200/50 dark:border-slate-800/50">
+            {voiceRecorder.isRecording && (
+              <div className="flex-1 flex items-center gap-2 py-2.5 text-sm text-slate-600 dark:text-slate-300">
+                <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse" />
+                <span className="font-medium tabular-nums">{formatDuration(voiceRecorder.elapsedMs)}</span>
+                <span className="text-slate-400 truncate">Release to send, move away to cancel</span>
+              </div>
+            )}
             <input
               ref={inputRef}
-              className="flex-1 bg-transparent py-2.5 text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none"
+              className={clsx("flex-1 bg-transparent py-2.5 text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none", voiceRecorder.isRecording && "hidden")}
               placeholder="Type a message... (supports markdown)"
               value={text}
               onChange={(e) => {
                 setText(e.target.value);
-                if (chatId && !editingMessage) chatService.setTypingStatus(chatId, true);
+                if (!editingMessage) typingNotifier.onKeystroke();
+              }}
+              onBlur={typingNotifier.stop}
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_MIME_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                handleAttach(e.target.files);
+                e.target.value = '';
               }}
-              onBlur={() => chatId && chatService.setTypingStatus(chatId, false)}
-              disabled={!navigator.onLine}
             />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!!editingMessage || !canUpload}
+              title="Attach a photo, video or file"
+              className="p-2 rounded-full text-slate-400 hover:text-blue-500 transition-colors disabled:opacity-50 disabled:hover:text-slate-400"
+            >
+              <Paperclip className="w-6 h-6" />
+            </button>
             <div className="relative">
               <button
                 type="button"
@@ -563,13 +870,44 @@ const ChatScreen = () => {
                 />
               )}
             </div>
-            <button
-              type="submit"
-              disabled={!text.trim()}
-              className="p-2.5 bg-blue-600 rounded-full text-white shadow-md disabled:opacity-50 hover:bg-blue-700 transition-all active:scale-95"
-            >
-              <Send className="w-5 h-5 ml-0.5" />
-            </button>
+            {text.trim() || editingMessage ? (
+              <button
+                type="submit"
+                disabled={!text.trim()}
+                className="p-2.5 bg-blue-600 rounded-full text-white shadow-md disabled:opacity-50 hover:bg-blue-700 transition-all active:scale-95"
+              >
+                <Send className="w-5 h-5 ml-0.5" />
+              </button>
+            ) : (
+              // Press and hold to record; releasing sends, sliding off the button cancels
+              <button
+                type="button"
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  voiceRecorder.start();
+                }}
+                onPointerUp={voiceRecorder.stop}
+                onPointerLeave={voiceRecorder.cancel}
+                onPointerCancel={voiceRecorder.cancel}
+                onKeyDown={(e) => {
+                  if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+                    e.preventDefault();
+                    voiceRecorder.start();
+                  }
+                }}
+                onKeyUp={(e) => {
+                  if (e.key === ' ' || e.key === 'Enter') voiceRecorder.stop();
+                }}
+                disabled={!canUpload}
+                title="Hold to record a voice message"
+                className={clsx(
+                  "p-2.5 rounded-full text-white shadow-md disabled:opacity-50 transition-all touch-none select-none",
+                  voiceRecorder.isRecording ? "bg-red-500 scale-110" : "bg-blue-600 hover:bg-blue-700"
+                )}
+              >
+                <Mic className="w-5 h-5" />
+              </button>
+            )}
           </form>
         </div>
 
@@ -579,9 +917,42 @@ const ChatScreen = () => {
             onClose={() => setForwardingMessage(null)}
             messageId={forwardingMessage.messageId}
             chatId={chatId}
-            messageText={forwardingMessage.text}
+            messageText={messageSummary(forwardingMessage)}
             onSuccess={() => setToast({ message: 'Message forwarded!', type: 'success' })}
-            onError={(error) => setToast({ message: error, type: 'error' })}
+            onError={showError}
+          />
+        )}
+
+        {historyMessage && chatId && (
+          <EditHistoryModal
+            isOpen={!!historyMessage}
+            onClose={() => setHistoryMessage(null)}
+            chatId={chatId}
+            message={historyMessage}
+            getDisplayName={getUserDisplayName}
+          />
+        )}
+
+        {deletingMessage && (
+          <DeleteMessageModal
+            isOpen={!!deletingMessage}
+            onClose={() => setDeletingMessage(null)}
+            message={deletingMessage}
+            canDeleteForEveryone={canDeleteForEveryone(deletingMessage)}
+            onDelete={(mode) => handleDelete(deletingMessage.messageId, mode)}
+          />
+        )}
+
+        {viewingImage && (
+          <ImageLightbox attachment={viewingImage} onClose={() => setViewingImage(null)} />
+        )}
+
+        {receiptsMessage && chatInfo && (
+          <ReceiptsModal
+            isOpen={!!receiptsMessage}
+            onClose={() => setReceiptsMessage(null)}
+            message={receiptsMessage}
+            chat={chatInfo}
           />
         )}
       </div>
@@ -591,7 +962,7 @@ const ChatScreen = () => {
           chat={chatInfo}
           onClose={() => setShowInfo(false)}
           onSuccess={(msg) => setToast({ message: msg, type: 'success' })}
-          onError={(err) => setToast({ message: err, type: 'error' })}
+          onError={showError}
         />
       )}
     </div>
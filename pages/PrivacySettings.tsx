@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { chatService } from '../services/chatService';
+import { describeError } from '../utils/errorMessages';
 import Avatar from '../components/Avatar';
 import Button from '../components/Button';
 import { ArrowLeft, Shield, Eye, EyeOff, Key, Clock, Check } from 'lucide-react';
 import { User } from '../types';
+import { DISAPPEARING_TIMER_OPTIONS, formatTimer } from '../utils/disappearing';
 
 const PrivacySettings = () => {
     const navigate = useNavigate();
@@ -30,7 +32,7 @@ const PrivacySettings = () => {
         if (self) setUserFullData(self);
     };
 
-    const handleTogglePrivacy = async (key: keyof NonNullable<User['privacySettings']>, value: 'everyone' | 'nobody') => {
+    const handleTogglePrivacy = async <K extends keyof NonNullable<User['privacySettings']>>(key: K, value: NonNullable<User['privacySettings']>[K]) => {
         if (!userFullData) return;
 
         const newSettings = {
@@ -38,26 +40,25 @@ const PrivacySettings = () => {
             [key]: value
         };
 
-        try {
-            await chatService.updatePrivacySettings(newSettings);
+        const result = await chatService.updatePrivacySettings(newSettings);
+        if (result.success) {
             setUserFullData({ ...userFullData, privacySettings: newSettings });
             setStatusMessage({ text: 'Settings updated', type: 'success' });
-        } catch (error) {
-            setStatusMessage({ text: 'Failed to update settings', type: 'error' });
+        } else {
+            setStatusMessage({ text: describeError(result.error), type: 'error' });
         }
     };
 
     const handleEnableE2EE = async () => {
         setLoading(true);
-        try {
-            await chatService.generateE2EEKeys();
+        const result = await chatService.generateE2EEKeys();
+        if (result.success) {
             setE2eeEnabled(true);
             setStatusMessage({ text: 'E2EE Keys generated and stored securely', type: 'success' });
-        } catch (error) {
-            setStatusMessage({ text: 'Failed to generate keys', type: 'error' });
-        } finally {
-            setLoading(false);
+        } else {
+            setStatusMessage({ text: describeError(result.error), type: 'error' });
         }
+        setLoading(false);
     };
 
     const handleResetE2EE = async () => {
@@ -175,20 +176,33 @@ const PrivacySettings = () => {
 
                     <div className="h-px bg-slate-100 dark:bg-slate-800" />
 
-                    {/* Experimental Section */}
-                    <section className="space-y-4 opacity-75">
+                    {/* Disappearing Messages */}
+                    <section className="space-y-4">
                         <div className="flex items-center gap-3 mb-2">
                             <div className="p-2 bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 rounded-xl">
                                 <Clock className="w-6 h-6" />
                             </div>
                             <div>
-                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">Self-Destruct (Coming Soon)</h2>
+                                <h2 className="text-lg font-bold text-slate-900 dark:text-white">Disappearing Messages</h2>
                                 <p className="text-xs text-slate-500">Default message lifetime</p>
                             </div>
                         </div>
-                        <p className="text-xs text-slate-500 bg-slate-50 dark:bg-slate-950 p-4 rounded-xl border border-dotted border-slate-200 dark:border-slate-800">
-                            Automatic message deletion timer will be configurable per chat soon.
-                        </p>
+                        <div className="flex items-center justify-between p-1">
+                            <div>
+                                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Default timer</span>
+                                <p className="text-xs text-slate-500">For chats you start; each chat can change it from its header</p>
+                            </div>
+                            <select
+                                value={userFullData?.privacySettings?.defaultDisappearingMinutes ?? ''}
+                                onChange={(e) => handleTogglePrivacy('defaultDisappearingMinutes', e.target.value ? Number(e.target.value) : null)}
+                                className="bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-600 dark:text-slate-400 px-3 py-1.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                            >
+                                <option value="">Off</option>
+                                {DISAPPEARING_TIMER_OPTIONS.map(minutes => (
+                                    <option key={minutes} value={minutes}>{formatTimer(minutes)}</option>
+                                ))}
+                            </select>
+                        </div>
                     </section>
                 </div>
             </div>
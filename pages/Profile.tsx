@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { chatService } from '../services/chatService';
+import { describeError } from '../utils/errorMessages';
 import Avatar from '../components/Avatar';
 import Button from '../components/Button';
 import Input from '../components/Input';
@@ -32,11 +33,11 @@ const Profile = () => {
     };
 
     const handleUnblock = async (userId: string) => {
-        try {
-            await chatService.toggleBlockUser(userId, false);
+        const result = await chatService.toggleBlockUser(userId, false);
+        if (result.success) {
             setBlockedUsers(prev => prev.filter(u => u.userId !== userId));
-        } catch (error) {
-            alert("Failed to unblock user");
+        } else {
+            alert(describeError(result.error));
         }
     };
 
@@ -45,15 +46,10 @@ const Profile = () => {
         if (!displayName.trim()) return;
 
         setLoading(true);
-        try {
-            await chatService.updateUserProfile(displayName);
-            // Show some success feedback if needed
-            alert("Profile updated!");
-        } catch (error) {
-            console.error("Failed to update profile", error);
-        } finally {
-            setLoading(false);
-        }
+        const result = await chatService.updateUserProfile(displayName);
+        // Show some success feedback if needed
+        alert(result.success ? "Profile updated!" : describeError(result.error));
+        setLoading(false);
     };
 
     return (
@@ -0,0 +1,140 @@
+import { User, Chat, Message, MessageRevision } from '../types';
+import { ActionResult } from './chatErrors';
+import { MessagePolicy } from '../utils/messagePolicy';
+
+export type Unsubscribe = () => void;
+
+// Size of the live message window and of each page fetched by loadOlderMessages
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Default page size for the chat list
+export const CHAT_PAGE_SIZE = 30;
+
+// Different emoji a single message can collect; firestore.rules checks reactions one emoji at a time up to this
+export const MAX_REACTION_EMOJIS = 12;
+
+export interface ChatListOptions {
+  archived?: boolean; // Archived chats only (default: active chats only)
+  limit?: number; // Defaults to CHAT_PAGE_SIZE
+}
+
+// 'me' hides messages from the current user's view only; 'everyone' removes them for all participants
+export type DeleteMode = 'me' | 'everyone';
+
+// Called after each batch of a bulk deletion; total is counted before the first batch
+export type DeletionProgress = (deleted: number, total: number) => void;
+
+// Progress and cancellation of an attachment upload
+export interface UploadOptions {
+  onProgress?: (fraction: number) => void; // 0 to 1
+  signal?: AbortSignal; // Aborting stops the upload; the action then fails with CANCELLED
+}
+
+// Voice message recorded in the browser (hooks/useVoiceRecorder.ts)
+export interface VoiceRecording {
+  blob: Blob;
+  durationMs: number;
+  waveform: number[]; // Peak levels, 0 to 1
+}
+
+// A page of message history as one user sees it. hasOlder and cursor describe the page as stored, before messages
+// hidden with "Delete for me" are filtered out, so a page that is mostly hidden doesn't end the history early.
+export interface MessagePage {
+  messages: Message[]; // Oldest first
+  hasOlder: boolean;
+  cursor: Date | null; // createdAt of the oldest stored message on the page; loadOlderMessages continues from it
+}
+
+export interface GlobalSearchResult {
+  chat: Chat;
+  messages: Message[];
+}
+
+// Everything the pages and modals need from the data layer.
+// Implemented by FirestoreBackend (production) and MemoryBackend (offline, seeded from mockData).
+// Actions never throw: they resolve to an ActionResult whose error is a ChatError (see chatErrors.ts).
+// Reads resolve to empty results when signed out; auth methods throw Firebase auth errors for the login form.
+export interface ChatBackend {
+  // --- Auth ---
+  getCurrentUser(): User | null;
+  onAuthStateChanged(callback: (user: User | null) => void): Unsubscribe;
+  login(email: string, password: string): Promise<User>;
+  register(email: string, password: string, displayName: string): Promise<User>;
+  logout(): Promise<void>;
+  updateUserProfile(displayName: string): Promise<ActionResult>;
+
+  // --- Presence ---
+  // true stamps the current time (readers expire it after TYPING_TIMEOUT_MS), false removes the entry
+  setTypingStatus(chatId: string, isTyping: boolean): Promise<ActionResult>;
+
+  // --- Chats ---
+  // Pinned first, then most recent. hasMore tells whether a larger limit would return more chats.
+  subscribeToChats(callback: (chats: Chat[], hasMore: boolean) => void, options?: ChatListOptions): Unsubscribe;
+  subscribeToChat(chatId: string, callback: (chat: Chat) => void): Unsubscribe;
+  searchUsers(searchTerm: string): Promise<User[]>;
+  // Both resolve to the chat ID; createChat returns the existing direct chat if there is one
+  createChat(otherUserId: string): Promise<ActionResult<string>>;
+  createGroupChat(name: string, description: string, memberIds: string[]): Promise<ActionResult<string>>;
+  addGroupMember(chatId: string, userId: string): Promise<ActionResult>;
+  removeGroupMember(chatId: string, userId: string): Promise<ActionResult>;
+  leaveGroup(chatId: string): Promise<ActionResult>;
+  makeAdmin(chatId: string, userId: string): Promise<ActionResult>;
+  updateGroupInfo(chatId: string, name: string, description: string): Promise<ActionResult>;
+  // Either side of a direct chat, or a group admin. Posts a system notice to the timeline.
+  setDisappearingTimer(chatId: string, minutes: number | null): Promise<ActionResult>;
+  // Group admins only: how long senders may edit their messages or delete them for everyone
+  setMessagePolicy(chatId: string, policy: MessagePolicy): Promise<ActionResult>;
+  getChatsForForward(): Promise<Chat[]>;
+  toggleArchiveChat(chatId: string, archive: boolean): Promise<ActionResult>;
+  toggleMuteChat(chatId: string, mute: boolean): Promise<ActionResult>;
+  togglePinChat(chatId: string, pin: boolean): Promise<ActionResult>;
+  // 'me': hides everything sent so far from the current user.
+  // 'everyone': group admins only; permanently deletes every message.
+  clearChatHistory(chatId: string, mode: DeleteMode, onProgress?: DeletionProgress): Promise<ActionResult>;
+  // Direct chats: removes the chat for the current user only; the last one out deletes it with its messages.
+  // Groups: admins only, deletes the chat and its messages for every member.
+  deleteChat(chatId: string, onProgress?: DeletionProgress): Promise<ActionResult>;
+
+  // --- E2EE & Privacy ---
+  generateE2EEKeys(): Promise<ActionResult>;
+  updatePrivacySettings(settings: User['privacySettings']): Promise<ActionResult>;
+  toggleBlockUser(userId: string, block: boolean): Promise<ActionResult>;
+  getBlockedUsers(): Promise<User[]>;
+
+  // --- Messages ---
+  // The latest MESSAGE_PAGE_SIZE messages, then older pages of the same size on demand
+  subscribeToMessages(chatId: string, callback: (page: MessagePage) => void): Unsubscribe;
+  loadOlderMessages(chatId: string, before: Date): Promise<MessagePage>;
+  searchMessagesInChat(chatId: string, searchQuery: string): Promise<Message[]>;
+  searchAllMessages(queryText: string): Promise<GlobalSearchResult[]>;
+  // messageId is generated by the client; sending the same ID again is a no-op, so the outbox can retry safely.
+  // Without an explicit expiresAt the chat's disappearing timer applies.
+  // Fails with ENCRYPTION rather than falling back to plain text when an E2EE chat can't be encrypted.
+  sendMessage(chatId: string, text: string, receiverId: string, replyTo?: Message['replyTo'], expiresAt?: Date, messageId?: string): Promise<ActionResult>;
+  // Uploads the file to Storage, then sends it as an attachment message. Fails with ATTACHMENT_REJECTED before
+  // uploading anything when the file is too large or of a type that isn't allowed (utils/attachments.ts).
+  // Files aren't end-to-end encrypted, even in E2EE chats.
+  sendAttachment(chatId: string, file: File, receiverId: string, replyTo?: Message['replyTo'], options?: UploadOptions): Promise<ActionResult>;
+  // Same upload path and limits as sendAttachment; sent as a message of type 'audio'
+  sendVoiceMessage(chatId: string, recording: VoiceRecording, receiverId: string, replyTo?: Message['replyTo'], options?: UploadOptions): Promise<ActionResult>;
+  // Adds the current user to playedBy; the sender's own plays don't count
+  markVoicePlayed(chatId: string, messageId: string): Promise<ActionResult>;
+  // Text messages only
+  forwardMessage(fromChatId: string, messageId: string, toChatIds: string[]): Promise<ActionResult>;
+  // Own messages within the chat's edit window (utils/messagePolicy.ts).
+  // Keeps the replaced text as a revision, encrypted like the message body was.
+  editMessage(chatId: string, messageId: string, newText: string): Promise<ActionResult>;
+  // Earlier versions of an edited message, oldest first
+  getMessageRevisions(chatId: string, messageId: string): Promise<MessageRevision[]>;
+  // 'me': any message, hidden for the current user only. 'everyone': own messages within the chat's delete window,
+  // leaves a tombstone.
+  deleteMessage(chatId: string, messageId: string, mode: DeleteMode): Promise<ActionResult>;
+  addReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult>;
+  removeReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult>;
+  markMessagesAsRead(chatId: string): Promise<ActionResult>;
+  pinMessage(chatId: string, messageId: string): Promise<ActionResult>;
+  unpinMessage(chatId: string, messageId: string): Promise<ActionResult>;
+
+  // --- Reports ---
+  reportUser(userId: string, reason: string, description: string): Promise<ActionResult>;
+}
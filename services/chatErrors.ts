@@ -0,0 +1,73 @@
+// Why a ChatBackend action failed. Backends report these instead of free-form strings;
+// utils/errorMessages.ts turns them into localized text for toasts.
+export type ChatErrorCode =
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'TIME_WINDOW_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'NETWORK'
+  | 'ENCRYPTION'
+  | 'ATTACHMENT_REJECTED'
+  | 'CANCELLED' // The user stopped it (e.g. an upload); nothing to report
+  | 'UNKNOWN'; // Anything the backend couldn't classify; details go to the console
+
+// Narrower causes that get a more specific message than the code alone
+export type ChatErrorReason =
+  | 'chat' | 'message' // NOT_FOUND
+  | 'admin_only' | 'group_only' | 'last_admin' | 'own_messages_only' | 'microphone' // PERMISSION_DENIED
+  | 'edit' | 'delete' // TIME_WINDOW_EXPIRED
+  | 'too_large' | 'unsupported_type' | 'forward'; // ATTACHMENT_REJECTED
+
+export interface ChatError {
+  code: ChatErrorCode;
+  reason?: ChatErrorReason;
+  windowMinutes?: number; // TIME_WINDOW_EXPIRED: length of the window that has passed
+}
+
+export type ActionResult<T = undefined> =
+  | { success: true; data: T }
+  | { success: false; error: ChatError };
+
+export function ok(): ActionResult;
+export function ok<T>(data: T): ActionResult<T>;
+export function ok<T>(data?: T): ActionResult<T | undefined> {
+  return { success: true, data };
+}
+
+export const fail = (code: ChatErrorCode, reason?: ChatErrorReason, windowMinutes?: number): { success: false; error: ChatError } => ({
+  success: false,
+  error: { code, ...(reason ? { reason } : {}), ...(windowMinutes ? { windowMinutes } : {}) }
+});
+
+// Firestore/Firebase error codes ('permission-denied', 'auth/network-request-failed', 'storage/canceled', ...) by category
+const FIREBASE_CODES: { [code: string]: ChatErrorCode } = {
+  'unauthenticated': 'NOT_AUTHENTICATED',
+  'auth/user-token-expired': 'NOT_AUTHENTICATED',
+  'not-found': 'NOT_FOUND',
+  'permission-denied': 'PERMISSION_DENIED',
+  'resource-exhausted': 'RATE_LIMITED',
+  'auth/too-many-requests': 'RATE_LIMITED',
+  'unavailable': 'NETWORK',
+  'deadline-exceeded': 'NETWORK',
+  'cancelled': 'NETWORK',
+  'auth/network-request-failed': 'NETWORK',
+  'storage/unauthenticated': 'NOT_AUTHENTICATED',
+  'storage/unauthorized': 'PERMISSION_DENIED',
+  'storage/object-not-found': 'NOT_FOUND',
+  'storage/quota-exceeded': 'RATE_LIMITED',
+  'storage/retry-limit-exceeded': 'NETWORK',
+  'storage/canceled': 'CANCELLED'
+};
+
+// Classify an exception thrown while performing an action
+export const toChatError = (err: unknown): ChatError => {
+  const code = typeof err === 'object' && err !== null && 'code' in err ? String(err.code) : '';
+  if (FIREBASE_CODES[code]) return { code: FIREBASE_CODES[code] };
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return { code: 'NETWORK' };
+  return { code: 'UNKNOWN' };
+};
+
+// Failures worth retrying as-is: the same request may succeed later
+export const isTransient = (error: ChatError) =>
+  error.code === 'NETWORK' || error.code === 'RATE_LIMITED' || error.code === 'UNKNOWN';
@@ -1,1251 +1,16 @@
-import {
-  collection,
-  query,
-  where,
-  orderBy,
-  addDoc,
-  onSnapshot,
-  doc,
-  updateDoc,
-  getDocs,
-  setDoc,
-  getDoc,
-  serverTimestamp,
-  limit
-} from 'firebase/firestore';
-import {
-  signInWithEmailAndPassword,
-  createUserWithEmailAndPassword,
-  signOut,
-  updateProfile,
-  User as FirebaseUser
-} from 'firebase/auth';
-import { auth, db } from './firebaseConfig';
-import { User, Chat, Message, MessageStatus } from '../types';
-
-class ChatService {
-  // --- Auth ---
-
-  getCurrentUser(): User | null {
-    const fbUser = auth.currentUser;
-    if (!fbUser) return null;
-    return this.mapFirebaseUser(fbUser);
-  }
-
-  // Слухач стану авторизації
-  onAuthStateChanged(callback: (user: User | null) => void) {
-    return auth.onAuthStateChanged((fbUser) => {
-      callback(fbUser ? this.mapFirebaseUser(fbUser) : null);
-    });
-  }
-
-  async login(email: string, password: string): Promise<User> {
-    const userCredential = await signInWithEmailAndPassword(auth, email, password);
-    await this.updateUserStatus(userCredential.user.uid, true);
-    return this.mapFirebaseUser(userCredential.user);
-  }
-
-  async register(email: string, password: string, displayName: string): Promise<User> {
-    const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-    await updateProfile(userCredential.user, { displayName });
-
-    // Створюємо документ користувача в Firestore
-    const newUser: User = {
-      userId: userCredential.user.uid,
-      displayName,
-      email,
-      photoURL: '',
-      isOnline: true,
-      lastSeen: new Date(),
-      createdAt: new Date()
-    };
-
-    await setDoc(doc(db, 'users', userCredential.user.uid), {
-      ...newUser,
-      lastSeen: serverTimestamp(),
-      createdAt: serverTimestamp()
-    });
-
-    return newUser;
-  }
-
-  async logout(): Promise<void> {
-    try {
-      if (auth.currentUser) {
-        // Try to update status, but don't block logout if it fails (e.g. permission error)
-        await this.updateUserStatus(auth.currentUser.uid, false);
-      }
-    } catch (e) {
-      console.warn("Could not update user status on logout", e);
-    }
-
-    // Always sign out
-    await signOut(auth);
-  }
-
-  private async updateUserStatus(userId: string, isOnline: boolean) {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      isOnline,
-      lastSeen: serverTimestamp()
-    });
-  }
-
-  async updateUserProfile(displayName: string): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-
-    await updateProfile(user, { displayName });
-
-    // Update firestore document
-    const userDocRef = doc(db, 'users', user.uid);
-    await updateDoc(userDocRef, {
-      displayName
-    });
-  }
-
-  async setTypingStatus(chatId: string, isTyping: boolean): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      [`typingUsers.${user.uid}`]: isTyping
-    });
-  }
-
-  // --- Chats ---
-
-  // Підписка на список чатів
-  subscribeToChats(callback: (chats: Chat[]) => void): () => void {
-    const user = auth.currentUser;
-    if (!user) return () => { };
-
-    const q = query(
-      collection(db, 'chats'),
-      where('participants', 'array-contains', user.uid)
-    );
-
-    return onSnapshot(q, async (snapshot) => {
-
-      // Resolve each chat's metadata and participants
-      const promises = snapshot.docs.map(async (docSnap) => {
-        const data = docSnap.data();
-        const chatId = docSnap.id;
-        const type = data.type || 'direct';
-
-        let otherUser: User | undefined;
-        let groupMembers: User[] = [];
-
-        if (type === 'direct') {
-          const otherUserId = data.participants.find((uid: string) => uid !== user.uid);
-          if (otherUserId) {
-            const userSnap = await getDoc(doc(db, 'users', otherUserId));
-            if (userSnap.exists()) {
-              otherUser = this.mapFirestoreUser(userSnap.data(), otherUserId);
-            }
-          }
-        } else {
-          // Resolve group members
-          const memberPromises = data.participants.map(async (uid: string) => {
-            const userSnap = await getDoc(doc(db, 'users', uid));
-            if (userSnap.exists()) {
-              return this.mapFirestoreUser(userSnap.data(), uid);
-            }
-            return null;
-          });
-          const resolvedMembers = await Promise.all(memberPromises);
-          groupMembers = resolvedMembers.filter((m): m is User => m !== null);
-        }
-
-        // Logic for unread counter and per-user settings
-        const myUnreadCount = data.unreadCounts?.[user.uid] || 0;
-        const isArchived = data.archivedStatus?.[user.uid] || false;
-        const isMuted = data.mutedStatus?.[user.uid] || false;
-        const isPinned = data.pinnedStatus?.[user.uid] || false;
-
-        return {
-          chatId,
-          type,
-          participants: data.participants,
-          lastMessage: data.lastMessage,
-          lastMessageAt: data.lastMessageAt?.toDate() || new Date(),
-          lastMessageSender: data.lastMessageSender,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          name: data.name,
-          description: data.description,
-          admins: data.admins,
-          otherUser,
-          groupMembers,
-          unreadCount: myUnreadCount,
-          isArchived,
-          isMuted,
-          isPinned,
-          typingUsers: data.typingUsers || {}
-        } as Chat;
-      });
-
-      const resolvedChats = await Promise.all(promises);
-
-      // Client-side sorting: Pinned chats first, then by last message time
-      resolvedChats.sort((a, b) => {
-        if (a.isPinned && !b.isPinned) return -1;
-        if (!a.isPinned && b.isPinned) return 1;
-
-        const timeA = a.lastMessageAt ? a.lastMessageAt.getTime() : 0;
-        const timeB = b.lastMessageAt ? b.lastMessageAt.getTime() : 0;
-        return timeB - timeA;
-      });
-
-      callback(resolvedChats);
-    });
-  }
-
-  // Пошук користувачів для початку чату
-  async searchUsers(searchTerm: string): Promise<User[]> {
-    if (!searchTerm) return [];
-
-    const usersRef = collection(db, 'users');
-    const q = query(
-      usersRef,
-      where('email', '>=', searchTerm),
-      where('email', '<=', searchTerm + '\uf8ff'),
-      limit(5)
-    );
-
-    const snapshot = await getDocs(q);
-    return snapshot.docs
-      .map(d => this.mapFirestoreUser(d.data(), d.id))
-      .filter(u => u.userId !== auth.currentUser?.uid);
-  }
-
-  // Створення або отримання існуючого чату
-  async createChat(otherUserId: string): Promise<string> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) throw new Error("No user");
-
-    // Перевірка чи чат вже існує
-    const q = query(
-      collection(db, 'chats'),
-      where('participants', 'array-contains', currentUser.uid)
-    );
-    const snapshot = await getDocs(q);
-    const existingChat = snapshot.docs.find(doc => {
-      const data = doc.data();
-      return data.type === 'direct' && data.participants.includes(otherUserId);
-    });
-
-    if (existingChat) return existingChat.id;
-
-    // Create new direct chat
-    const newChatRef = await addDoc(collection(db, 'chats'), {
-      type: 'direct',
-      participants: [currentUser.uid, otherUserId],
-      createdAt: serverTimestamp(),
-      lastMessage: '',
-      lastMessageAt: serverTimestamp(),
-      lastMessageSender: '',
-      unreadCounts: {
-        [currentUser.uid]: 0,
-        [otherUserId]: 0
-      }
-    });
-
-    return newChatRef.id;
-  }
-
-  // Create a group chat
-  async createGroupChat(name: string, description: string, memberIds: string[]): Promise<string> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) throw new Error("Not authenticated");
-
-    // Include current user in participants
-    const allParticipants = [currentUser.uid, ...memberIds.filter(id => id !== currentUser.uid)];
-
-    // Initialize unread counts for all participants
-    const unreadCounts: { [key: string]: number } = {};
-    allParticipants.forEach(uid => { unreadCounts[uid] = 0; });
-
-    // Initialize archived/muted/pinned status for all participants
-    const archivedStatus: { [key: string]: boolean } = {};
-    const mutedStatus: { [key: string]: boolean } = {};
-    const pinnedStatus: { [key: string]: boolean } = {};
-    allParticipants.forEach(uid => {
-      archivedStatus[uid] = false;
-      mutedStatus[uid] = false;
-      pinnedStatus[uid] = false;
-    });
-
-    const newChatRef = await addDoc(collection(db, 'chats'), {
-      type: 'group',
-      name,
-      description,
-      participants: allParticipants,
-      admins: [currentUser.uid], // Creator is admin
-      createdAt: serverTimestamp(),
-      lastMessage: `${name} group created`,
-      lastMessageAt: serverTimestamp(),
-      lastMessageSender: currentUser.uid,
-      unreadCounts,
-      archivedStatus,
-      mutedStatus,
-      pinnedStatus
-    });
-
-    return newChatRef.id;
-  }
-
-  // Add member to group
-  async addGroupMember(chatId: string, userId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const chatRef = doc(db, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
-
-    if (!chatSnap.exists()) {
-      return { success: false, error: 'Chat not found' };
-    }
-
-    const chatData = chatSnap.data();
-
-    // Check if it's a group chat
-    if (chatData.type !== 'group') {
-      return { success: false, error: 'Can only add members to group chats' };
-    }
-
-    // Check if current user is admin
-    if (!chatData.admins?.includes(currentUser.uid)) {
-      return { success: false, error: 'Only admins can add members' };
-    }
-
-    // Check if user already in group
-    if (chatData.participants.includes(userId)) {
-      return { success: false, error: 'User already in group' };
-    }
-
-    // Add user to participants
-    await updateDoc(chatRef, {
-      participants: [...chatData.participants, userId],
-      [`unreadCounts.${userId}`]: 0,
-      [`archivedStatus.${userId}`]: false,
-      [`mutedStatus.${userId}`]: false,
-      [`pinnedStatus.${userId}`]: false
-    });
-
-    return { success: true };
-  }
-
-  // Remove member from group
-  async removeGroupMember(chatId: string, userId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const chatRef = doc(db, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
-
-    if (!chatSnap.exists()) {
-      return { success: false, error: 'Chat not found' };
-    }
-
-    const chatData = chatSnap.data();
-
-    if (chatData.type !== 'group') {
-      return { success: false, error: 'Can only remove members from group chats' };
-    }
-
-    // Check if current user is admin (or removing themselves)
-    if (!chatData.admins?.includes(currentUser.uid) && currentUser.uid !== userId) {
-      return { success: false, error: 'Only admins can remove members' };
-    }
-
-    // Can't remove the last admin
-    if (chatData.admins?.includes(userId) && chatData.admins.length === 1) {
-      return { success: false, error: 'Cannot remove the last admin' };
-    }
-
-    // Remove user from participants
-    const newParticipants = chatData.participants.filter((p: string) => p !== userId);
-    const newAdmins = (chatData.admins || []).filter((a: string) => a !== userId);
-
-    await updateDoc(chatRef, {
-      participants: newParticipants,
-      admins: newAdmins
-    });
-
-    return { success: true };
-  }
-
-  // Leave group (for non-admins or admins with other admins)
-  async leaveGroup(chatId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    return this.removeGroupMember(chatId, currentUser.uid);
-  }
-
-  // Make user admin
-  async makeAdmin(chatId: string, userId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const chatRef = doc(db, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
-
-    if (!chatSnap.exists()) {
-      return { success: false, error: 'Chat not found' };
-    }
-
-    const chatData = chatSnap.data();
-
-    if (chatData.type !== 'group') {
-      return { success: false, error: 'Can only make admins in group chats' };
-    }
-
-    if (!chatData.admins?.includes(currentUser.uid)) {
-      return { success: false, error: 'Only admins can make other admins' };
-    }
-
-    if (chatData.admins?.includes(userId)) {
-      return { success: false, error: 'User is already an admin' };
-    }
-
-    await updateDoc(chatRef, {
-      admins: [...(chatData.admins || []), userId]
-    });
-
-    return { success: true };
-  }
-
-  // Update group info
-  async updateGroupInfo(chatId: string, name: string, description: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const chatRef = doc(db, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
-
-    if (!chatSnap.exists()) {
-      return { success: false, error: 'Chat not found' };
-    }
-
-    const chatData = chatSnap.data();
-
-    if (chatData.type !== 'group') {
-      return { success: false, error: 'Can only update group chats' };
-    }
-
-    if (!chatData.admins?.includes(currentUser.uid)) {
-      return { success: false, error: 'Only admins can update group info' };
-    }
-
-    await updateDoc(chatRef, { name, description });
-
-    return { success: true };
-  }
-
-  // --- E2EE & Privacy ---
-
-  async generateE2EEKeys(): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-
-    try {
-      // Generate ECDH key pair for shared secret derivation
-      const keyPair = await window.crypto.subtle.generateKey(
-        { name: 'ECDH', namedCurve: 'P-256' },
-        true,
-        ['deriveKey']
-      );
-
-      // Export public key to raw format (for sharing)
-      const publicKeyBuffer = await window.crypto.subtle.exportKey('raw', keyPair.publicKey);
-      const publicKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(publicKeyBuffer)));
-
-      // Export private key to pkcs8 (for storage)
-      const privateKeyBuffer = await window.crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
-      const privateKeyBase64 = btoa(String.fromCharCode(...new Uint8Array(privateKeyBuffer)));
-
-      // Store private key locally (NOT in Firestore)
-      localStorage.setItem(`e2ee_priv_${user.uid}`, privateKeyBase64);
-
-      // Store public key in Firestore
-      await updateDoc(doc(db, 'users', user.uid), { publicKey: publicKeyBase64 });
-    } catch (err) {
-      console.error("Failed to generate E2EE keys", err);
-    }
-  }
-
-  private async getStoredPrivateKey(): Promise<CryptoKey | null> {
-    const user = auth.currentUser;
-    if (!user) return null;
-
-    const privateKeyBase64 = localStorage.getItem(`e2ee_priv_${user.uid}`);
-    if (!privateKeyBase64) return null;
-
-    try {
-      const privateKeyBuffer = new Uint8Array(atob(privateKeyBase64).split('').map(c => c.charCodeAt(0))).buffer;
-      return await window.crypto.subtle.importKey(
-        'pkcs8',
-        privateKeyBuffer,
-        { name: 'ECDH', namedCurve: 'P-256' },
-        true,
-        ['deriveKey']
-      );
-    } catch (err) {
-      console.error("Failed to import private key", err);
-      return null;
-    }
-  }
-
-  async encryptText(text: string, otherPublicKeyBase64: string): Promise<{ ciphertext: string, iv: string }> {
-    const privKey = await this.getStoredPrivateKey();
-    if (!privKey) throw new Error("No E2EE keys found. Please enable E2EE in settings.");
-
-    // Import other's public key
-    const otherPubBuffer = new Uint8Array(atob(otherPublicKeyBase64).split('').map(c => c.charCodeAt(0))).buffer;
-    const otherPubKey = await window.crypto.subtle.importKey(
-      'raw',
-      otherPubBuffer,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      true,
-      []
-    );
-
-    // Derive shared AES-GCM key
-    const aesKey = await window.crypto.subtle.deriveKey(
-      { name: 'ECDH', public: otherPubKey },
-      privKey,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    );
-
-    // Encrypt
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
-    const encoded = new TextEncoder().encode(text);
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      aesKey,
-      encoded
-    );
-
-    return {
-      ciphertext: btoa(String.fromCharCode(...new Uint8Array(encrypted))),
-      iv: btoa(String.fromCharCode(...iv))
-    };
-  }
-
-  async decryptText(ciphertextBase64: string, ivBase64: string, otherPublicKeyBase64: string): Promise<string> {
-    const privKey = await this.getStoredPrivateKey();
-    if (!privKey) throw new Error("No E2EE private key available");
-
-    const otherPubBuffer = new Uint8Array(atob(otherPublicKeyBase64).split('').map(c => c.charCodeAt(0))).buffer;
-    const otherPubKey = await window.crypto.subtle.importKey(
-      'raw',
-      otherPubBuffer,
-      { name: 'ECDH', namedCurve: 'P-256' },
-      true,
-      []
-    );
-
-    const aesKey = await window.crypto.subtle.deriveKey(
-      { name: 'ECDH', public: otherPubKey },
-      privKey,
-      { name: 'AES-GCM', length: 256 },
-      true,
-      ['encrypt', 'decrypt']
-    );
-
-    const ciphertext = new Uint8Array(atob(ciphertextBase64).split('').map(c => c.charCodeAt(0))).buffer;
-    const iv = new Uint8Array(atob(ivBase64).split('').map(c => c.charCodeAt(0)));
-
-    const decrypted = await window.crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      aesKey,
-      ciphertext
-    );
-
-    return new TextDecoder().decode(decrypted);
-  }
-
-  async updatePrivacySettings(settings: User['privacySettings']): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-    await updateDoc(doc(db, 'users', user.uid), { privacySettings: settings });
-  }
-
-  // --- Messages ---
-
-  subscribeToMessages(chatId: string, callback: (messages: Message[]) => void): () => void {
-    const q = query(
-      collection(db, 'chats', chatId, 'messages'),
-      orderBy('createdAt', 'asc')
-    );
-
-    return onSnapshot(q, async (snapshot) => {
-      const messages: Message[] = [];
-
-      const privKeyAvailable = !!localStorage.getItem(`e2ee_priv_${auth.currentUser?.uid}`);
-
-      for (const docSnap of snapshot.docs) {
-        const data = docSnap.data();
-        let text = data.text;
-
-        // E2EE Decryption
-        if (data.isEncrypted && data.iv && data.senderPublicKey && privKeyAvailable) {
-          try {
-            text = await this.decryptText(data.text, data.iv, data.senderPublicKey);
-          } catch (e) {
-            text = "🔒 Encrypted message (click to decrypt or keys missing)";
-          }
-        }
-
-        messages.push({
-          messageId: docSnap.id,
-          text,
-          senderId: data.senderId,
-          receiverId: data.receiverId,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          status: data.status as MessageStatus,
-          replyTo: data.replyTo,
-          reactions: data.reactions,
-          type: data.type,
-          isPinned: data.isPinned || false,
-          deletedAt: data.deletedAt?.toDate(),
-          isEncrypted: data.isEncrypted || false
-        });
-      }
-      callback(messages);
-    });
-  }
-
-  // Search messages in chat (client-side filtering since Firestore doesn't support full-text search on free tier)
-  async searchMessagesInChat(chatId: string, searchQuery: string): Promise<Message[]> {
-    if (!searchQuery.trim()) return [];
-
-    const q = query(
-      collection(db, 'chats', chatId, 'messages'),
-      orderBy('createdAt', 'desc'),
-      limit(500) // Limit to last 500 messages for performance
-    );
-
-    const snapshot = await getDocs(q);
-    const searchLower = searchQuery.toLowerCase();
-
-    const messages: Message[] = [];
-    const privKeyAvailable = !!localStorage.getItem(`e2ee_priv_${auth.currentUser?.uid}`);
-
-    for (const docSnap of snapshot.docs) {
-      const data = docSnap.data() as any;
-      if (data.deletedAt) continue;
-
-      let text = data.text;
-      if (data.isEncrypted && data.iv && data.senderPublicKey && privKeyAvailable) {
-        try {
-          text = await this.decryptText(data.text, data.iv, data.senderPublicKey);
-        } catch (e) {
-          continue; // Can't search encrypted if not decryptable
-        }
-      }
-
-      if (text?.toLowerCase().includes(searchLower)) {
-        messages.push({
-          messageId: docSnap.id,
-          text,
-          senderId: data.senderId,
-          receiverId: data.receiverId,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          status: data.status as MessageStatus,
-          replyTo: data.replyTo,
-          reactions: data.reactions,
-          isPinned: data.isPinned || false,
-          isEdited: data.isEdited || false,
-          forwardedFrom: data.forwardedFrom
-        });
-      }
-    }
-
-    return messages;
-  }
-
-  // Send text message
-  async sendMessage(chatId: string, text: string, receiverId: string, replyTo?: any, expiresAt?: Date): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    let finalMessage = text;
-    let iv: string | undefined;
-    let isEncrypted = false;
-    let senderPublicKey: string | undefined;
-
-    // Check if E2EE is enabled and it's a direct message
-    const chatRef = doc(db, 'chats', chatId);
-    const chatSnap = await getDoc(chatRef);
-    if (!chatSnap.exists()) return;
-    const chatData = chatSnap.data();
-
-    if (chatData.type === 'direct' && receiverId !== 'group') {
-      const otherUserId = chatData.participants.find((uid: string) => uid !== currentUser.uid);
-      if (otherUserId) {
-        const otherUserSnap = await getDoc(doc(db, 'users', otherUserId));
-        const myUserSnap = await getDoc(doc(db, 'users', currentUser.uid));
-
-        const otherPublicKey = otherUserSnap.data()?.publicKey;
-        const myPublicKey = myUserSnap.data()?.publicKey;
-
-        if (otherPublicKey && myPublicKey && localStorage.getItem(`e2ee_priv_${currentUser.uid}`)) {
-          try {
-            const encrypted = await this.encryptText(text, otherPublicKey);
-            finalMessage = encrypted.ciphertext;
-            iv = encrypted.iv;
-            isEncrypted = true;
-            senderPublicKey = myPublicKey;
-          } catch (e) {
-            console.error("Encryption failed", e);
-          }
-        }
-      }
-    }
-
-    // Add message to Firestore
-    await addDoc(collection(db, 'chats', chatId, 'messages'), {
-      text: finalMessage,
-      iv: iv || null,
-      isEncrypted,
-      senderPublicKey: senderPublicKey || null,
-      senderId: currentUser.uid,
-      receiverId,
-      createdAt: serverTimestamp(),
-      expiresAt: expiresAt || null,
-      status: MessageStatus.SENT,
-      replyTo: replyTo || null,
-      reactions: {},
-      type: 'text'
-    });
-
-    // Update chat metadata
-    const data = chatSnap.data();
-    const updates: any = {
-      lastMessage: isEncrypted ? '🔒 Encrypted message' : text,
-      lastMessageAt: serverTimestamp(),
-      lastMessageSender: currentUser.uid,
-    };
-
-    if (receiverId === 'group') {
-      data.participants.forEach((uid: string) => {
-        if (uid !== currentUser.uid) {
-          const currentCount = data.unreadCounts?.[uid] || 0;
-          updates[`unreadCounts.${uid}`] = currentCount + 1;
-        }
-      });
-    } else {
-      const currentUnread = data.unreadCounts?.[receiverId] || 0;
-      updates[`unreadCounts.${receiverId}`] = currentUnread + 1;
-    }
-
-    await updateDoc(chatRef, updates);
-  }
-
-  // Forward message to multiple chats
-  async forwardMessage(fromChatId: string, messageId: string, toChatIds: string[]): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    // Get the original message
-    const messageRef = doc(db, 'chats', fromChatId, 'messages', messageId);
-    const messageSnap = await getDoc(messageRef);
-
-    if (!messageSnap.exists()) {
-      return { success: false, error: 'Message not found' };
-    }
-
-    const originalMessage = messageSnap.data();
-
-    if (originalMessage.deletedAt) {
-      return { success: false, error: 'Cannot forward deleted message' };
-    }
-
-    // Forward to each selected chat
-    for (const toChatId of toChatIds) {
-      // Get the target chat info
-      const chatRef = doc(db, 'chats', toChatId);
-      const chatSnap = await getDoc(chatRef);
-
-      if (!chatSnap.exists()) continue;
-
-      const chatData = chatSnap.data();
-      const receiverId = chatData.participants.find((uid: string) => uid !== currentUser.uid);
-
-      if (!receiverId) continue;
-
-      // Add forwarded message
-      await addDoc(collection(db, 'chats', toChatId, 'messages'), {
-        text: originalMessage.text,
-        senderId: currentUser.uid,
-        receiverId,
-        createdAt: serverTimestamp(),
-        status: MessageStatus.SENT,
-        reactions: {},
-        type: 'text',
-        forwardedFrom: fromChatId
-      });
-
-      // Update chat metadata
-      const currentUnread = chatData.unreadCounts?.[receiverId] || 0;
-      await updateDoc(chatRef, {
-        lastMessage: originalMessage.text,
-        lastMessageAt: serverTimestamp(),
-        lastMessageSender: currentUser.uid,
-        [`unreadCounts.${receiverId}`]: currentUnread + 1
-      });
-    }
-
-    return { success: true };
-  }
-
-  // Get all chats for forwarding (without real-time subscription)
-  async getChatsForForward(): Promise<Chat[]> {
-    const user = auth.currentUser;
-    if (!user) return [];
-
-    const q = query(
-      collection(db, 'chats'),
-      where('participants', 'array-contains', user.uid)
-    );
-
-    const snapshot = await getDocs(q);
-    const chats: Chat[] = [];
-
-    for (const docSnap of snapshot.docs) {
-      const data = docSnap.data();
-      const otherUserId = data.participants.find((uid: string) => uid !== user.uid);
-
-      let otherUser: User | undefined;
-      if (otherUserId) {
-        const userSnap = await getDoc(doc(db, 'users', otherUserId));
-        if (userSnap.exists()) {
-          otherUser = this.mapFirestoreUser(userSnap.data(), otherUserId);
-        }
-      }
-
-      chats.push({
-        chatId: docSnap.id,
-        participants: data.participants,
-        lastMessage: data.lastMessage,
-        lastMessageAt: data.lastMessageAt?.toDate() || new Date(),
-        lastMessageSender: data.lastMessageSender,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        type: data.type || 'direct',
-        name: data.name,
-        otherUser
-      } as Chat);
-    }
-
-    return chats;
-  }
-
-  // Search messages across all user's chats
-  async searchAllMessages(queryText: string): Promise<{ chat: Chat; messages: Message[] }[]> {
-    const user = auth.currentUser;
-    if (!user || !queryText.trim()) return [];
-
-    // 1. Get all chats
-    const chatsQ = query(
-      collection(db, 'chats'),
-      where('participants', 'array-contains', user.uid)
-    );
-    const chatsSnap = await getDocs(chatsQ);
-
-    const results: { chat: Chat; messages: Message[] }[] = [];
-    const searchLower = queryText.toLowerCase();
-
-    // 2. Search in each chat
-    for (const chatDoc of chatsSnap.docs) {
-      const chatData = chatDoc.data();
-      const chatId = chatDoc.id;
-
-      // Limit search to last 100 messages for speed
-      const msgsQ = query(
-        collection(db, 'chats', chatId, 'messages'),
-        orderBy('createdAt', 'desc'),
-        limit(100)
-      );
-
-      const msgsSnap = await getDocs(msgsQ);
-      const matchingMessages: Message[] = [];
-
-      for (const msgDoc of msgsSnap.docs) {
-        const msgData = msgDoc.data() as any;
-        if (msgData.deletedAt) continue;
-
-        if (msgData.text?.toLowerCase().includes(searchLower)) {
-          matchingMessages.push({
-            messageId: msgDoc.id,
-            text: msgData.text,
-            senderId: msgData.senderId,
-            receiverId: msgData.receiverId,
-            createdAt: msgData.createdAt?.toDate() || new Date(),
-            status: msgData.status as MessageStatus,
-            forwardedFrom: msgData.forwardedFrom
-          });
-        }
-      }
-
-      if (matchingMessages.length > 0) {
-        // Resolve other user or group info
-        let otherUser: User | undefined;
-        if (chatData.type === 'direct' || !chatData.type) {
-          const otherUserId = chatData.participants.find((p: string) => p !== user.uid);
-          if (otherUserId) {
-            const userSnap = await getDoc(doc(db, 'users', otherUserId));
-            if (userSnap.exists()) {
-              otherUser = this.mapFirestoreUser(userSnap.data(), otherUserId);
-            }
-          }
-        }
-
-        results.push({
-          chat: {
-            chatId,
-            type: chatData.type || 'direct',
-            participants: chatData.participants,
-            name: chatData.name,
-            otherUser
-          } as Chat,
-          messages: matchingMessages
-        });
-      }
-    }
-
-    return results;
-  }
-
-  // Archive/unarchive chat for current user
-  async toggleArchiveChat(chatId: string, archive: boolean): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      [`archivedStatus.${currentUser.uid}`]: archive
-    });
-  }
-
-  // Mute/unmute chat for current user
-  async toggleMuteChat(chatId: string, mute: boolean): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      [`mutedStatus.${currentUser.uid}`]: mute
-    });
-  }
-
-  // Pin/unpin chat for current user
-  async togglePinChat(chatId: string, pin: boolean): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      [`pinnedStatus.${currentUser.uid}`]: pin
-    });
-  }
-
-  // Block/unblock user
-  async toggleBlockUser(userId: string, block: boolean): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    const userRef = doc(db, 'users', currentUser.uid);
-    const userSnap = await getDoc(userRef);
-
-    if (!userSnap.exists()) return;
-
-    const userData = userSnap.data();
-    const blockedUsers = userData.blockedUsers || [];
-
-    if (block && !blockedUsers.includes(userId)) {
-      await updateDoc(userRef, {
-        blockedUsers: [...blockedUsers, userId]
-      });
-    } else if (!block && blockedUsers.includes(userId)) {
-      await updateDoc(userRef, {
-        blockedUsers: blockedUsers.filter((id: string) => id !== userId)
-      });
-    }
-  }
-
-  // Get blocked users list
-  async getBlockedUsers(): Promise<User[]> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return [];
-
-    const userRef = doc(db, 'users', currentUser.uid);
-    const userSnap = await getDoc(userRef);
-
-    if (!userSnap.exists()) return [];
-
-    const userData = userSnap.data();
-    const blockedIds = userData.blockedUsers || [];
-
-    const blockedUsers: User[] = [];
-    for (const id of blockedIds) {
-      const blockedUserSnap = await getDoc(doc(db, 'users', id));
-      if (blockedUserSnap.exists()) {
-        blockedUsers.push(this.mapFirestoreUser(blockedUserSnap.data(), id));
-      }
-    }
-
-    return blockedUsers;
-  }
-
-  // Clear chat history (delete all messages)
-  async clearChatHistory(chatId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const messagesRef = collection(db, 'chats', chatId, 'messages');
-    const snapshot = await getDocs(messagesRef);
-
-    // Mark all messages as deleted
-    for (const docSnap of snapshot.docs) {
-      await updateDoc(doc(db, 'chats', chatId, 'messages', docSnap.id), {
-        deletedAt: serverTimestamp(),
-        text: 'Message deleted'
-      });
-    }
-
-    // Update chat metadata
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      lastMessage: 'Chat history cleared',
-      lastMessageAt: serverTimestamp()
-    });
-
-    return { success: true };
-  }
-
-  // Delete chat completely
-  async deleteChat(chatId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    try {
-      // 1. Delete all messages first (Firestore best practice for subcollections)
-      const messagesRef = collection(db, 'chats', chatId, 'messages');
-      const msgsSnap = await getDocs(messagesRef);
-      for (const mDoc of msgsSnap.docs) {
-        // For efficiency in this demo, we'll just delete them. 
-        // In large apps, use a cloud function.
-        await setDoc(doc(db, 'chats', chatId, 'messages', mDoc.id), { deletedAt: serverTimestamp() }, { merge: true });
-      }
-
-      // 2. Delete the chat document
-      // Note: In real production, we might want to just mark as deleted for the user or remove user from participants.
-      // But user specifically asked for "deletion".
-      const chatRef = doc(db, 'chats', chatId);
-      await updateDoc(chatRef, {
-        [`deletedBy.${currentUser.uid}`]: true,
-        participants: [], // Effectively hides it from everyone in this simple implementation
-        lastMessage: 'Chat deleted'
-      });
-
-      return { success: true };
-    } catch (err) {
-      console.error("Failed to delete chat", err);
-      return { success: false, error: 'Failed to delete chat' };
-    }
-  }
-
-  // Edit message with 15-minute time limit
-  async editMessage(chatId: string, messageId: string, newText: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    const messageSnap = await getDoc(messageRef);
-
-    if (!messageSnap.exists()) {
-      return { success: false, error: 'Message not found' };
-    }
-
-    const data = messageSnap.data();
-
-    // Check if user is the sender
-    if (data.senderId !== currentUser.uid) {
-      return { success: false, error: 'You can only edit your own messages' };
-    }
-
-    // Check 15-minute time limit
-    const createdAt = data.createdAt?.toDate();
-    if (createdAt) {
-      const timeDiff = Date.now() - createdAt.getTime();
-      const fifteenMinutes = 15 * 60 * 1000;
-      if (timeDiff > fifteenMinutes) {
-        return { success: false, error: 'Messages can only be edited within 15 minutes' };
-      }
-    }
-
-    await updateDoc(messageRef, {
-      text: newText,
-      isEdited: true,
-      editedAt: serverTimestamp()
-    });
-
-    return { success: true };
-  }
-
-  async addReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    const messageSnap = await getDoc(messageRef);
-
-    if (messageSnap.exists()) {
-      const data = messageSnap.data();
-      const reactions = data.reactions || {};
-      const usersReacted = reactions[emoji] || [];
-
-      if (!usersReacted.includes(user.uid)) {
-        usersReacted.push(user.uid);
-        await updateDoc(messageRef, {
-          [`reactions.${emoji}`]: usersReacted
-        });
-      }
-    }
-  }
-
-  async removeReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
-    const user = auth.currentUser;
-    if (!user) return;
-
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    const messageSnap = await getDoc(messageRef);
-
-    if (messageSnap.exists()) {
-      const data = messageSnap.data();
-      const reactions = data.reactions || {};
-      const usersReacted = reactions[emoji] || [];
-
-      if (usersReacted.includes(user.uid)) {
-        const newUsers = usersReacted.filter((uid: string) => uid !== user.uid);
-        await updateDoc(messageRef, {
-          [`reactions.${emoji}`]: newUsers
-        });
-      }
-    }
-  }
-
-  async markMessagesAsRead(chatId: string): Promise<void> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return;
-
-    const chatRef = doc(db, 'chats', chatId);
-    await updateDoc(chatRef, {
-      [`unreadCounts.${currentUser.uid}`]: 0
-    });
-  }
-
-  // Delete message with 1-hour time limit
-  async deleteMessage(chatId: string, messageId: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    const messageSnap = await getDoc(messageRef);
-
-    if (!messageSnap.exists()) {
-      return { success: false, error: 'Message not found' };
-    }
-
-    const data = messageSnap.data();
-
-    // Check if user is the sender
-    if (data.senderId !== currentUser.uid) {
-      return { success: false, error: 'You can only delete your own messages' };
-    }
-
-    // Check 1-hour time limit
-    const createdAt = data.createdAt?.toDate();
-    if (createdAt) {
-      const timeDiff = Date.now() - createdAt.getTime();
-      const oneHour = 60 * 60 * 1000;
-      if (timeDiff > oneHour) {
-        return { success: false, error: 'Messages can only be deleted within 1 hour' };
-      }
-    }
-
-    await updateDoc(messageRef, {
-      deletedAt: serverTimestamp(),
-      text: 'Message deleted'
-    });
-
-    return { success: true };
-  }
-
-  async pinMessage(chatId: string, messageId: string): Promise<void> {
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    await updateDoc(messageRef, {
-      isPinned: true
-    });
-  }
-
-  async unpinMessage(chatId: string, messageId: string): Promise<void> {
-    const messageRef = doc(db, 'chats', chatId, 'messages', messageId);
-    await updateDoc(messageRef, {
-      isPinned: false
-    });
-  }
-
-  // Report a user
-  async reportUser(userId: string, reason: string, description: string): Promise<{ success: boolean; error?: string }> {
-    const currentUser = auth.currentUser;
-    if (!currentUser) return { success: false, error: 'Not authenticated' };
-
-    try {
-      await addDoc(collection(db, 'reports'), {
-        reportedUserId: userId,
-        reporterId: currentUser.uid,
-        reason,
-        description,
-        createdAt: serverTimestamp(),
-        status: 'pending'
-      });
-      return { success: true };
-    } catch (err) {
-      return { success: false, error: 'Failed to submit report' };
-    }
-  }
-
-  // --- Helpers ---
-
-  private mapFirebaseUser(user: FirebaseUser): User {
-    return {
-      userId: user.uid,
-      displayName: user.displayName || 'User',
-      email: user.email || '',
-      photoURL: user.photoURL || '',
-      isOnline: true,
-      lastSeen: new Date(),
-      createdAt: new Date(user.metadata.creationTime || Date.now())
-    };
-  }
-
-  private mapFirestoreUser(data: any, userId: string): User {
-    return {
-      userId: userId,
-      displayName: data.displayName || 'User',
-      email: data.email || '',
-      photoURL: data.photoURL || '',
-      isOnline: data.isOnline || false,
-      lastSeen: data.lastSeen?.toDate() || new Date(),
-      createdAt: data.createdAt?.toDate() || new Date()
-    };
-  }
-}
-
-export const chatService = new ChatService();
+import { ChatBackend } from './chatBackend';
+import { FirestoreBackend } from './firestoreBackend';
+import { MemoryBackend } from './memoryBackend';
+
+// Backend is picked once at startup.
+// VITE_CHAT_BACKEND=memory runs the whole app offline against the seeded mock data.
+const createBackend = (): ChatBackend => {
+  switch (import.meta.env.VITE_CHAT_BACKEND) {
+    case 'memory':
+      return new MemoryBackend();
+    default:
+      return new FirestoreBackend();
+  }
+};
+
+export const chatService: ChatBackend = createBackend();
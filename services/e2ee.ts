@@ -0,0 +1,100 @@
+// ECDH (P-256) key agreement + AES-GCM helpers shared by the chat backends.
+// Private keys never leave localStorage; only the public key is published.
+
+const PRIVATE_KEY_PREFIX = 'e2ee_priv_';
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+const fromBase64 = (base64: string) =>
+  new Uint8Array(atob(base64).split('').map(c => c.charCodeAt(0)));
+
+export const hasPrivateKey = (userId: string | undefined): boolean =>
+  !!userId && !!localStorage.getItem(`${PRIVATE_KEY_PREFIX}${userId}`);
+
+// Generates a fresh key pair, stores the private half locally and returns the public half (Base64, raw format)
+export async function generateKeyPair(userId: string): Promise<string> {
+  const keyPair = await window.crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    ['deriveKey']
+  );
+
+  const publicKeyBuffer = await window.crypto.subtle.exportKey('raw', keyPair.publicKey);
+  const privateKeyBuffer = await window.crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+  // Store private key locally (NOT in Firestore)
+  localStorage.setItem(`${PRIVATE_KEY_PREFIX}${userId}`, toBase64(privateKeyBuffer));
+
+  return toBase64(publicKeyBuffer);
+}
+
+async function getStoredPrivateKey(userId: string): Promise<CryptoKey | null> {
+  const privateKeyBase64 = localStorage.getItem(`${PRIVATE_KEY_PREFIX}${userId}`);
+  if (!privateKeyBase64) return null;
+
+  try {
+    return await window.crypto.subtle.importKey(
+      'pkcs8',
+      fromBase64(privateKeyBase64).buffer,
+      { name: 'ECDH', namedCurve: 'P-256' },
+      true,
+      ['deriveKey']
+    );
+  } catch (err) {
+    console.error("Failed to import private key", err);
+    return null;
+  }
+}
+
+async function deriveSharedKey(privKey: CryptoKey, otherPublicKeyBase64: string): Promise<CryptoKey> {
+  const otherPubKey = await window.crypto.subtle.importKey(
+    'raw',
+    fromBase64(otherPublicKeyBase64).buffer,
+    { name: 'ECDH', namedCurve: 'P-256' },
+    true,
+    []
+  );
+
+  return window.crypto.subtle.deriveKey(
+    { name: 'ECDH', public: otherPubKey },
+    privKey,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(userId: string, text: string, otherPublicKeyBase64: string): Promise<{ ciphertext: string, iv: string }> {
+  const privKey = await getStoredPrivateKey(userId);
+  if (!privKey) throw new Error("No E2EE keys found. Please enable E2EE in settings.");
+
+  const aesKey = await deriveSharedKey(privKey, otherPublicKeyBase64);
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    aesKey,
+    new TextEncoder().encode(text)
+  );
+
+  return {
+    ciphertext: toBase64(encrypted),
+    iv: toBase64(iv)
+  };
+}
+
+export async function decryptText(userId: string, ciphertextBase64: string, ivBase64: string, otherPublicKeyBase64: string): Promise<string> {
+  const privKey = await getStoredPrivateKey(userId);
+  if (!privKey) throw new Error("No E2EE private key available");
+
+  const aesKey = await deriveSharedKey(privKey, otherPublicKeyBase64);
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(ivBase64) },
+    aesKey,
+    fromBase64(ciphertextBase64).buffer
+  );
+
+  return new TextDecoder().decode(decrypted);
+}
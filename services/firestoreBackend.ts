@@ -0,0 +1,1721 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  addDoc,
+  onSnapshot,
+  doc,
+  updateDoc,
+  getDocs,
+  setDoc,
+  getCountFromServer,
+  getDoc,
+  serverTimestamp,
+  limit,
+  arrayRemove,
+  Firestore,
+  QueryDocumentSnapshot,
+  DocumentData,
+  DocumentReference,
+  documentId,
+  writeBatch,
+  deleteField,
+  arrayUnion,
+  runTransaction,
+  waitForPendingWrites,
+  Timestamp,
+} from 'firebase/firestore';
+import {
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  updateProfile,
+  User as FirebaseUser,
+  Auth
+} from 'firebase/auth';
+import { FirebaseStorage, deleteObject, getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
+import { FirebaseServices, getFirebase } from './firebaseConfig';
+import { User, Chat, Attachment, Message, MessageRevision, MessageStatus, UserChat } from '../types';
+import { ChatBackend, ChatListOptions, DeleteMode, DeletionProgress, GlobalSearchResult, MessagePage, UploadOptions, VoiceRecording, CHAT_PAGE_SIZE, MESSAGE_PAGE_SIZE, Unsubscribe } from './chatBackend';
+import { generateKeyPair, hasPrivateKey, encryptText, decryptText } from './e2ee';
+import { UserDirectory, chunkForInQuery } from './userDirectory';
+import { ActionResult, fail, ok, toChatError } from './chatErrors';
+import { PresenceTracker } from './presence';
+import { recordServerTime, serverNow } from './serverClock';
+import { describeTimerChange, expiryFor } from '../utils/disappearing';
+import { MessagePolicy, isWithinWindow, policyOf } from '../utils/messagePolicy';
+import { describeAttachment, rejectAttachment, storageFileName } from '../utils/attachments';
+import { baseMimeType, rejectVoiceRecording } from '../utils/voice';
+import { HiddenMessages, NOTHING_HIDDEN, visiblePreview, withoutHidden } from '../utils/hiddenMessages';
+import { ChatDocument, Encryption, MessageDocument, chatConverter, messageConverter, readDocs, revisionConverter, userConverter } from './firestoreConverters';
+
+// Firestore's limit of writes per batch
+const DELETE_BATCH_SIZE = 500;
+
+// Bump when the users/{uid}/chats layout changes and migrateChatIndex needs to run again
+const CHAT_INDEX_VERSION = 1;
+
+// Receipt cursors live on the chat document, which every member listens to. Each client writes its own at most this
+// often per chat and coalesces acks in between, so a busy group isn't one write per member per message on one document.
+const RECEIPT_INTERVAL_MS = 5000;
+
+type ReceiptCursor = 'deliveredUpTo' | 'readUpTo';
+
+interface ReceiptState {
+  // Cursor values (server time, ms) already written and still to write
+  written: Record<ReceiptCursor, number>;
+  pending: Partial<Record<ReceiptCursor, number>>;
+  lastWriteAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class FirestoreBackend implements ChatBackend {
+  private auth: Auth;
+  private db: Firestore;
+  private storage: FirebaseStorage;
+  private users: UserDirectory;
+  private chatIndexMigrations = new Map<string, Promise<void>>();
+  // This client's receipt cursors per chat, and the newest message its listener has received in each
+  private receipts = new Map<string, ReceiptState>();
+  private newestReceived = new Map<string, number>();
+  private presence: { userId: string; tracker: PresenceTracker } | null = null;
+  private serverClockMeasured = false;
+
+  // Tests pass their own app per signed-in user; the app uses the shared one from firebaseConfig
+  constructor(services: FirebaseServices = getFirebase()) {
+    const { auth, db, storage } = services;
+    this.auth = auth;
+    this.db = db;
+    this.storage = storage;
+    this.users = new UserDirectory(db);
+
+    // Heartbeats run for whoever is signed in, including sessions restored on reload
+    this.auth.onAuthStateChanged((fbUser) => this.trackPresence(fbUser?.uid || null));
+  }
+
+  // --- Auth ---
+
+  getCurrentUser(): User | null {
+    const fbUser = this.auth.currentUser;
+    if (!fbUser) return null;
+    return this.mapFirebaseUser(fbUser);
+  }
+
+  // Слухач стану авторизації
+  onAuthStateChanged(callback: (user: User | null) => void) {
+    return this.auth.onAuthStateChanged((fbUser) => {
+      callback(fbUser ? this.mapFirebaseUser(fbUser) : null);
+    });
+  }
+
+  async login(email: string, password: string): Promise<User> {
+    const userCredential = await signInWithEmailAndPassword(this.auth, email, password);
+    return this.mapFirebaseUser(userCredential.user);
+  }
+
+  async register(email: string, password: string, displayName: string): Promise<User> {
+    const userCredential = await createUserWithEmailAndPassword(this.auth, email, password);
+    await updateProfile(userCredential.user, { displayName });
+
+    // Створюємо документ користувача в Firestore
+    const newUser: User = {
+      userId: userCredential.user.uid,
+      displayName,
+      email,
+      photoURL: '',
+      isOnline: true,
+      lastSeen: new Date(),
+      createdAt: new Date()
+    };
+
+    await setDoc(doc(this.db, 'users', userCredential.user.uid), {
+      ...newUser,
+      lastSeen: serverTimestamp(),
+      createdAt: serverTimestamp()
+    });
+
+    return newUser;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      this.trackPresence(null);
+      this.flushAllReceipts();
+      if (this.auth.currentUser) {
+        // Try to update status, but don't block logout if it fails (e.g. permission error)
+        await this.updateUserStatus(this.auth.currentUser.uid, false);
+      }
+    } catch (e) {
+      console.warn("Could not update user status on logout", e);
+    }
+
+    // Always sign out
+    await signOut(this.auth);
+  }
+
+  private trackPresence(userId: string | null) {
+    if (this.presence?.userId === userId) return;
+
+    this.presence?.tracker.stop();
+    this.presence = userId
+      ? { userId, tracker: new PresenceTracker(userId, (isOnline) => this.updateUserStatus(userId, isOnline)) }
+      : null;
+  }
+
+  private async getDefaultDisappearingMinutes(userId: string): Promise<number | null> {
+    const userSnap = await getDoc(this.userRef(userId));
+    return userSnap.data()?.privacySettings?.defaultDisappearingMinutes ?? null;
+  }
+
+  // lastSeen doubles as the heartbeat. The first one also tells how far this device's clock is from the server's.
+  private async updateUserStatus(userId: string, isOnline: boolean) {
+    const userRef = doc(this.db, 'users', userId);
+    const sentAt = Date.now();
+    await updateDoc(userRef, {
+      isOnline,
+      lastSeen: serverTimestamp()
+    });
+
+    if (this.serverClockMeasured) return;
+    this.serverClockMeasured = true;
+    const acknowledgedAt = Date.now();
+    try {
+      const lastSeen = (await getDoc(this.userRef(userId))).data()?.lastSeen;
+      if (lastSeen) recordServerTime(lastSeen, sentAt, acknowledgedAt);
+    } catch (err) {
+      // Keeps comparing with the device clock
+      console.warn("Could not measure the server clock", err);
+    }
+  }
+
+  updateUserProfile(displayName: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+
+      await updateProfile(user, { displayName });
+
+      // Update firestore document
+      const userDocRef = doc(this.db, 'users', user.uid);
+      await updateDoc(userDocRef, {
+        displayName
+      });
+
+      return ok();
+    });
+  }
+
+  setTypingStatus(chatId: string, isTyping: boolean): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = doc(this.db, 'chats', chatId);
+      await updateDoc(chatRef, {
+        [`typingUsers.${user.uid}`]: isTyping ? serverTimestamp() : deleteField()
+      });
+
+      return ok();
+    });
+  }
+
+  // --- Chats ---
+
+  // Підписка на список чатів
+  // Ordered and paginated server-side through the user's chat index; chat documents are joined for members and typing state.
+  subscribeToChats(callback: (chats: Chat[], hasMore: boolean) => void, options: ChatListOptions = {}): () => void {
+    const user = this.auth.currentUser;
+    if (!user) return () => { };
+
+    const { archived = false, limit: maxChats = CHAT_PAGE_SIZE } = options;
+
+    // One extra document tells us whether there is another page
+    const q = query(
+      collection(this.db, 'users', user.uid, 'chats'),
+      where('isArchived', '==', archived),
+      orderBy('isPinned', 'desc'),
+      orderBy('lastMessageAt', 'desc'),
+      limit(maxChats + 1)
+    );
+
+    let stopped = false;
+    let entries: UserChat[] = [];
+    let hasMore = false;
+    const chatData = new Map<string, ChatDocument>();
+
+    let unsubscribeIndex: Unsubscribe = () => { };
+    let chatWatchers: Unsubscribe[] = [];
+    let watchedKey = '';
+
+    const emit = () => {
+      const chats = entries
+        .filter(entry => chatData.has(entry.chatId))
+        .map(entry => this.buildChat(chatData.get(entry.chatId)!, user.uid, entry));
+      callback(chats, hasMore);
+    };
+
+    const members = this.watchMembers(emit);
+
+    const watchChats = (chatIds: string[]) => {
+      const key = [...chatIds].sort().join(',');
+      if (key === watchedKey) return;
+      watchedKey = key;
+
+      chatWatchers.forEach(unsubscribe => unsubscribe());
+      [...chatData.keys()].filter(id => !chatIds.includes(id)).forEach(id => chatData.delete(id));
+
+      chatWatchers = chunkForInQuery(chatIds).map(batch => onSnapshot(
+        query(
+          this.chatsRef(),
+          where(documentId(), 'in', batch),
+          where('participants', 'array-contains', user.uid)
+        ),
+        async (snapshot) => {
+          snapshot.docChanges().forEach(change => {
+            const [chat] = change.type === 'removed' ? [] : readDocs([change.doc]);
+            if (chat) {
+              chatData.set(chat.chatId, chat);
+              this.acknowledgeDelivery(chat, user.uid);
+            } else {
+              chatData.delete(change.doc.id);
+            }
+          });
+          await members.update([...chatData.values()].flatMap(c => c.participants));
+          emit();
+        }
+      ));
+    };
+
+    this.migrateChatIndex(user.uid)
+      .catch(err => console.error("Chat index migration failed", err))
+      .finally(() => {
+        if (stopped) return;
+        unsubscribeIndex = onSnapshot(q, (snapshot) => {
+          hasMore = snapshot.docs.length > maxChats;
+          entries = snapshot.docs.slice(0, maxChats).map(d => this.mapChatIndexEntry(d.data(), d.id, user.uid));
+          watchChats(entries.map(e => e.chatId));
+          emit();
+        });
+      });
+
+    return () => {
+      stopped = true;
+      unsubscribeIndex();
+      chatWatchers.forEach(unsubscribe => unsubscribe());
+      members.stop();
+    };
+  }
+
+  // Підписка на один чат (екран розмови)
+  subscribeToChat(chatId: string, callback: (chat: Chat) => void): () => void {
+    const user = this.auth.currentUser;
+    if (!user) return () => { };
+
+    let chat: ChatDocument | undefined;
+    const emit = () => {
+      if (chat) callback(this.buildChat(chat, user.uid));
+    };
+
+    const members = this.watchMembers(emit);
+
+    const unsubscribeChat = onSnapshot(this.chatRef(chatId), async (chatSnap) => {
+      const [data] = readDocs([chatSnap]);
+      if (!data) return;
+      chat = data;
+      this.acknowledgeDelivery(data, user.uid);
+      await members.update(data.participants);
+      emit();
+    });
+
+    return () => {
+      unsubscribeChat();
+      members.stop();
+    };
+  }
+
+  // Пошук користувачів для початку чату
+  async searchUsers(searchTerm: string): Promise<User[]> {
+    if (!searchTerm) return [];
+
+    const usersRef = collection(this.db, 'users').withConverter(userConverter);
+    const q = query(
+      usersRef,
+      where('email', '>=', searchTerm),
+      where('email', '<=', searchTerm + '\uf8ff'),
+      limit(5)
+    );
+
+    const snapshot = await getDocs(q);
+    return readDocs(snapshot.docs)
+      .filter(u => u.userId !== this.auth.currentUser?.uid);
+  }
+
+  // Створення або отримання існуючого чату
+  createChat(otherUserId: string): Promise<ActionResult<string>> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      // Перевірка чи чат вже існує
+      const q = query(
+        this.chatsRef(),
+        where('participants', 'array-contains', currentUser.uid)
+      );
+      const snapshot = await getDocs(q);
+      const existingChat = readDocs(snapshot.docs)
+        .find(chat => chat.type === 'direct' && chat.participants.includes(otherUserId));
+
+      if (existingChat) {
+        // Deleted from this user's list earlier: put it back, without the history from before
+        const deletedAt = existingChat.deletedBy?.[currentUser.uid];
+        if (deletedAt) {
+          const batch = writeBatch(this.db);
+          batch.set(this.chatIndexRef(currentUser.uid, existingChat.chatId), {
+            ...this.newChatIndexEntry(currentUser.uid, existingChat.chatId, existingChat),
+            clearedAt: deletedAt
+          });
+          batch.update(this.chatRef(existingChat.chatId), { [`deletedBy.${currentUser.uid}`]: deleteField() });
+          await batch.commit();
+        }
+        return ok(existingChat.chatId);
+      }
+
+      // Create new direct chat with the creator's index entry; the onChatWritten function adds the other one
+      const newChatRef = doc(collection(this.db, 'chats'));
+      const chatData = {
+        type: 'direct',
+        participants: [currentUser.uid, otherUserId],
+        createdAt: serverTimestamp(),
+        lastMessage: '',
+        lastMessageAt: serverTimestamp(),
+        lastMessageSender: '',
+        disappearingMinutes: await this.getDefaultDisappearingMinutes(currentUser.uid)
+      };
+
+      const batch = writeBatch(this.db);
+      batch.set(newChatRef, chatData);
+      batch.set(this.chatIndexRef(currentUser.uid, newChatRef.id), this.newChatIndexEntry(currentUser.uid, newChatRef.id, chatData));
+      await batch.commit();
+
+      return ok(newChatRef.id);
+    });
+  }
+
+  // Create a group chat
+  createGroupChat(name: string, description: string, memberIds: string[]): Promise<ActionResult<string>> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      // Include current user in participants
+      const allParticipants = [currentUser.uid, ...memberIds.filter(id => id !== currentUser.uid)];
+
+      const newChatRef = doc(collection(this.db, 'chats'));
+      const chatData = {
+        type: 'group',
+        name,
+        description,
+        participants: allParticipants,
+        admins: [currentUser.uid], // Creator is admin
+        disappearingMinutes: await this.getDefaultDisappearingMinutes(currentUser.uid),
+        createdAt: serverTimestamp(),
+        lastMessage: `${name} group created`,
+        lastMessageAt: serverTimestamp(),
+        lastMessageSender: currentUser.uid
+      };
+
+      // Members' index entries are added by the onChatWritten function
+      const batch = writeBatch(this.db);
+      batch.set(newChatRef, chatData);
+      batch.set(this.chatIndexRef(currentUser.uid, newChatRef.id), this.newChatIndexEntry(currentUser.uid, newChatRef.id, chatData));
+      await batch.commit();
+
+      return ok(newChatRef.id);
+    });
+  }
+
+  // Add member to group
+  addGroupMember(chatId: string, userId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+
+      if (!chatData) {
+        return fail('NOT_FOUND', 'chat');
+      }
+
+      // Check if it's a group chat
+      if (chatData.type !== 'group') {
+        return fail('PERMISSION_DENIED', 'group_only');
+      }
+
+      // Check if current user is admin
+      if (!chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      // Check if user already in group
+      if (chatData.participants.includes(userId)) {
+        return ok();
+      }
+
+      // The onChatWritten function gives them an index entry
+      await updateDoc(chatRef, {
+        participants: arrayUnion(userId)
+      });
+
+      return ok();
+    });
+  }
+
+  // Remove member from group
+  // Runs as a transaction so two admins leaving at once can't leave the group without an admin
+  removeGroupMember(chatId: string, userId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+
+      return runTransaction(this.db, async (transaction): Promise<ActionResult> => {
+        const chatData = (await transaction.get(chatRef)).data();
+
+        if (!chatData) {
+          return fail('NOT_FOUND', 'chat');
+        }
+
+        if (chatData.type !== 'group') {
+          return fail('PERMISSION_DENIED', 'group_only');
+        }
+
+        // Check if current user is admin (or removing themselves)
+        if (!chatData.admins?.includes(currentUser.uid) && currentUser.uid !== userId) {
+          return fail('PERMISSION_DENIED', 'admin_only');
+        }
+
+        // Can't remove the last admin
+        if (chatData.admins?.includes(userId) && chatData.admins.length === 1) {
+          return fail('PERMISSION_DENIED', 'last_admin');
+        }
+
+        // Remove user from participants
+        transaction.update(chatRef, {
+          participants: arrayRemove(userId),
+          admins: arrayRemove(userId)
+        });
+        transaction.delete(this.chatIndexRef(userId, chatId));
+
+        return ok();
+      });
+    });
+  }
+
+  // Leave group (for non-admins or admins with other admins)
+  async leaveGroup(chatId: string): Promise<ActionResult> {
+    const currentUser = this.auth.currentUser;
+    if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+    return this.removeGroupMember(chatId, currentUser.uid);
+  }
+
+  // Make user admin
+  makeAdmin(chatId: string, userId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+
+      if (!chatData) {
+        return fail('NOT_FOUND', 'chat');
+      }
+
+      if (chatData.type !== 'group') {
+        return fail('PERMISSION_DENIED', 'group_only');
+      }
+
+      if (!chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      if (chatData.admins?.includes(userId)) {
+        return ok();
+      }
+
+      await updateDoc(chatRef, {
+        admins: arrayUnion(userId)
+      });
+
+      return ok();
+    });
+  }
+
+  // Update group info
+  updateGroupInfo(chatId: string, name: string, description: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+
+      if (!chatData) {
+        return fail('NOT_FOUND', 'chat');
+      }
+
+      if (chatData.type !== 'group') {
+        return fail('PERMISSION_DENIED', 'group_only');
+      }
+
+      if (!chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      await updateDoc(chatRef, { name, description });
+
+      return ok();
+    });
+  }
+
+  setDisappearingTimer(chatId: string, minutes: number | null): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+
+      if (!chatData) {
+        return fail('NOT_FOUND', 'chat');
+      }
+
+      if (chatData.type === 'group' && !chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      if ((chatData.disappearingMinutes ?? null) === minutes) {
+        return ok();
+      }
+
+      // The new policy and the notice about it land together
+      const notice = describeTimerChange(minutes);
+      const batch = writeBatch(this.db);
+      batch.update(chatRef, { disappearingMinutes: minutes });
+      batch.set(doc(collection(this.db, 'chats', chatId, 'messages')), {
+        text: notice,
+        senderId: currentUser.uid,
+        receiverId: chatData.type === 'group' ? 'group' : chatData.participants.find(uid => uid !== currentUser.uid) || '',
+        createdAt: serverTimestamp(),
+        expiresAt: null,
+        status: MessageStatus.SENT,
+        reactions: {},
+        type: 'system'
+      });
+      await batch.commit();
+
+      return ok();
+    });
+  }
+
+  setMessagePolicy(chatId: string, policy: MessagePolicy): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+
+      if (!chatData) {
+        return fail('NOT_FOUND', 'chat');
+      }
+
+      if (chatData.type !== 'group') {
+        return fail('PERMISSION_DENIED', 'group_only');
+      }
+
+      if (!chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      await updateDoc(chatRef, {
+        editWindowMinutes: policy.editWindowMinutes,
+        deleteWindowMinutes: policy.deleteWindowMinutes
+      });
+
+      return ok();
+    });
+  }
+
+  // --- E2EE & Privacy ---
+
+  generateE2EEKeys(): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+
+      let publicKeyBase64: string;
+      try {
+        publicKeyBase64 = await generateKeyPair(user.uid);
+      } catch (err) {
+        console.error("Failed to generate E2EE keys", err);
+        return fail('ENCRYPTION');
+      }
+
+      // Store public key in Firestore
+      await updateDoc(doc(this.db, 'users', user.uid), { publicKey: publicKeyBase64 });
+
+      return ok();
+    });
+  }
+
+  updatePrivacySettings(settings: User['privacySettings']): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+      await updateDoc(doc(this.db, 'users', user.uid), { privacySettings: settings });
+
+      return ok();
+    });
+  }
+
+  // --- Messages ---
+
+  // Live listener on the latest page only; older history is fetched on demand with loadOlderMessages.
+  // Messages the user deleted for themselves are filtered out as their index entry changes.
+  subscribeToMessages(chatId: string, callback: (page: MessagePage) => void): () => void {
+    const user = this.auth.currentUser;
+    if (!user) return () => { };
+
+    const q = query(
+      this.messagesRef(chatId),
+      orderBy('createdAt', 'desc'),
+      limit(MESSAGE_PAGE_SIZE)
+    );
+
+    let page: MessagePage | null = null;
+    let hidden = NOTHING_HIDDEN;
+    const emit = () => {
+      if (page) callback({ ...page, messages: withoutHidden(page.messages, hidden) });
+    };
+
+    const unsubscribeMessages = onSnapshot(q, async (snapshot) => {
+      // Newest first; local writes don't have their server time yet
+      const newest = snapshot.docs.find(d => !d.metadata.hasPendingWrites)?.data().createdAt;
+      if (newest && newest.getTime() > (this.newestReceived.get(chatId) || 0)) this.newestReceived.set(chatId, newest.getTime());
+      page = await this.toMessagePage(snapshot.docs);
+      emit();
+    });
+    const unsubscribeHidden = onSnapshot(this.chatIndexRef(user.uid, chatId), (snapshot) => {
+      hidden = this.mapChatIndexEntry(snapshot.data() || {}, chatId, user.uid);
+      emit();
+    });
+
+    return () => {
+      unsubscribeMessages();
+      unsubscribeHidden();
+    };
+  }
+
+  // One page of messages created before the given cursor
+  async loadOlderMessages(chatId: string, before: Date): Promise<MessagePage> {
+    const q = query(
+      this.messagesRef(chatId),
+      where('createdAt', '<', before),
+      orderBy('createdAt', 'desc'),
+      limit(MESSAGE_PAGE_SIZE)
+    );
+
+    const [snapshot, hidden] = await Promise.all([getDocs(q), this.getHidden(chatId)]);
+    const page = await this.toMessagePage(snapshot.docs);
+    return { ...page, messages: withoutHidden(page.messages, hidden) };
+  }
+
+  // A page from newest-first query results. hasOlder and the cursor come from the documents themselves,
+  // before anything is filtered out.
+  private async toMessagePage(docs: QueryDocumentSnapshot<MessageDocument>[]): Promise<MessagePage> {
+    const oldest = docs[docs.length - 1]?.data().createdAt;
+    return {
+      messages: (await this.decodeMessages(docs)).reverse(),
+      hasOlder: docs.length === MESSAGE_PAGE_SIZE,
+      cursor: oldest ? new Date(oldest) : null
+    };
+  }
+
+  // Search messages in chat (client-side filtering since Firestore doesn't support full-text search on free tier)
+  async searchMessagesInChat(chatId: string, searchQuery: string): Promise<Message[]> {
+    if (!searchQuery.trim()) return [];
+
+    const q = query(
+      this.messagesRef(chatId),
+      orderBy('createdAt', 'desc'),
+      limit(500) // Limit to last 500 messages for performance
+    );
+
+    const snapshot = await getDocs(q);
+    const messages = await this.decodeMessages(snapshot.docs);
+    return this.matchMessages(withoutHidden(messages, await this.getHidden(chatId)), searchQuery);
+  }
+
+  // Send text message
+  sendMessage(chatId: string, text: string, receiverId: string, replyTo?: Message['replyTo'], expiresAt?: Date, messageId?: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const messagesRef = collection(this.db, 'chats', chatId, 'messages');
+      const messageRef = messageId ? doc(messagesRef, messageId) : doc(messagesRef);
+
+      // A retry of a message sent before. If that write is still only queued locally it's lost on reload, unlike
+      // the outbox entry, so it only counts once the server confirms it. Offline this waits until the outbox's
+      // timeout, which keeps the entry queued.
+      if (messageId) {
+        const existing = await getDoc(messageRef);
+        if (existing.exists()) {
+          if (existing.metadata.hasPendingWrites) await waitForPendingWrites(this.db);
+          return ok();
+        }
+      }
+
+      const chatData = (await getDoc(this.chatRef(chatId))).data();
+      if (!chatData) return fail('NOT_FOUND', 'chat');
+
+      const body = await this.encodeBody(chatData, currentUser.uid, text);
+      if (!body) return fail('ENCRYPTION');
+
+      // Only the message itself: the onMessageCreated function (functions/src/fanout.ts) updates the preview,
+      // unread counters and notifications
+      await setDoc(messageRef, {
+        ...body,
+        senderId: currentUser.uid,
+        receiverId,
+        createdAt: serverTimestamp(),
+        expiresAt: expiresAt || expiryFor(chatData.disappearingMinutes) || null,
+        status: MessageStatus.SENT,
+        replyTo: replyTo || null,
+        reactions: {},
+        type: 'text'
+      });
+
+      return ok();
+    });
+  }
+
+  sendAttachment(chatId: string, file: File, receiverId: string, replyTo?: Message['replyTo'], options: UploadOptions = {}): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const rejected = rejectAttachment(file);
+      if (rejected) return fail('ATTACHMENT_REJECTED', rejected);
+
+      return this.uploadAndSend(chatId, file, await describeAttachment(file), { type: 'attachment', receiverId, replyTo }, options);
+    });
+  }
+
+  sendVoiceMessage(chatId: string, recording: VoiceRecording, receiverId: string, replyTo?: Message['replyTo'], options: UploadOptions = {}): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const rejected = rejectVoiceRecording(recording.blob);
+      if (rejected) return fail('ATTACHMENT_REJECTED', rejected);
+
+      const mimeType = baseMimeType(recording.blob.type);
+      const details = {
+        kind: 'audio' as const,
+        name: `voice-${Date.now()}.${mimeType.split('/')[1]}`,
+        mimeType,
+        size: recording.blob.size,
+        durationMs: recording.durationMs,
+        waveform: recording.waveform
+      };
+      return this.uploadAndSend(chatId, recording.blob, details, { type: 'audio', receiverId, replyTo }, options);
+    });
+  }
+
+  markVoicePlayed(chatId: string, messageId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const messageRef = doc(this.messagesRef(chatId), messageId);
+      const data = (await getDoc(messageRef)).data();
+
+      if (!data) {
+        return fail('NOT_FOUND', 'message');
+      }
+
+      // Only plays by recipients count
+      if (data.senderId === currentUser.uid || data.playedBy?.includes(currentUser.uid)) {
+        return ok();
+      }
+
+      await updateDoc(messageRef, { playedBy: arrayUnion(currentUser.uid) });
+
+      return ok();
+    });
+  }
+
+  // Forward message to multiple chats
+  forwardMessage(fromChatId: string, messageId: string, toChatIds: string[]): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      // Get the original message
+      const messageSnap = await getDoc(doc(this.messagesRef(fromChatId), messageId));
+      const originalMessage = messageSnap.data();
+
+      if (!originalMessage || originalMessage.deletedAt) {
+        return fail('NOT_FOUND', 'message');
+      }
+
+      // The copy would share the original's file, which goes away with the original
+      if (originalMessage.attachment) {
+        return fail('ATTACHMENT_REJECTED', 'forward');
+      }
+
+      // The original's ciphertext only opens in its own chat, so the copy is made from the plain text
+      const text = await this.readBody(originalMessage.text, originalMessage.encryption);
+      if (text === null) return fail('ENCRYPTION');
+
+      // Forward to each selected chat
+      for (const toChatId of toChatIds) {
+        // Get the target chat info
+        const chatData = (await getDoc(this.chatRef(toChatId))).data();
+        if (!chatData) continue;
+
+        // The same receiverId the chat screen sends with
+        const receiverId = chatData.type === 'direct' ? chatData.participants.find(uid => uid !== currentUser.uid) : 'group';
+
+        if (!receiverId) continue;
+
+        // Encrypted again if the target chat uses E2EE
+        const body = await this.encodeBody(chatData, currentUser.uid, text);
+        if (!body) return fail('ENCRYPTION');
+
+        // Add forwarded message
+        await addDoc(collection(this.db, 'chats', toChatId, 'messages'), {
+          ...body,
+          senderId: currentUser.uid,
+          receiverId,
+          createdAt: serverTimestamp(),
+          status: MessageStatus.SENT,
+          expiresAt: expiryFor(chatData.disappearingMinutes) || null,
+          reactions: {},
+          type: 'text',
+          forwardedFrom: fromChatId
+        });
+      }
+
+      return ok();
+    });
+  }
+
+  // Get all chats for forwarding (without real-time subscription)
+  async getChatsForForward(): Promise<Chat[]> {
+    const user = this.auth.currentUser;
+    if (!user) return [];
+
+    const q = query(
+      this.chatsRef(),
+      where('participants', 'array-contains', user.uid)
+    );
+
+    const chats = readDocs((await getDocs(q)).docs);
+    const otherUserIds = chats
+      .map(chat => chat.participants.find(uid => uid !== user.uid))
+      .filter((uid): uid is string => !!uid);
+    await this.users.getUsers(otherUserIds);
+
+    return chats.map(chat => this.buildChat(chat, user.uid));
+  }
+
+  // Search messages across all user's chats
+  async searchAllMessages(queryText: string): Promise<GlobalSearchResult[]> {
+    const user = this.auth.currentUser;
+    if (!user || !queryText.trim()) return [];
+
+    // 1. Get all chats
+    const chatsQ = query(
+      this.chatsRef(),
+      where('participants', 'array-contains', user.uid)
+    );
+    const chatsSnap = await getDocs(chatsQ);
+
+    const results: { chat: ChatDocument; messages: Message[] }[] = [];
+
+    // 2. Search in each chat
+    for (const chat of readDocs(chatsSnap.docs)) {
+      // Limit search to last 100 messages for speed
+      const msgsQ = query(
+        this.messagesRef(chat.chatId),
+        orderBy('createdAt', 'desc'),
+        limit(100)
+      );
+
+      const msgsSnap = await getDocs(msgsQ);
+      const messages = withoutHidden(await this.decodeMessages(msgsSnap.docs), await this.getHidden(chat.chatId));
+      const matchingMessages = this.matchMessages(messages, queryText);
+
+      if (matchingMessages.length > 0) {
+        results.push({ chat, messages: matchingMessages });
+      }
+    }
+
+    // 3. Resolve other users for the matching direct chats in one batch
+    const otherUserIds = results
+      .filter(r => r.chat.type === 'direct')
+      .map(r => r.chat.participants.find(p => p !== user.uid))
+      .filter((uid): uid is string => !!uid);
+    await this.users.getUsers(otherUserIds);
+
+    return results.map(r => ({
+      chat: this.buildChat(r.chat, user.uid),
+      messages: r.messages
+    }));
+  }
+
+  // Archive/unarchive chat for current user
+  toggleArchiveChat(chatId: string, archive: boolean): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      await updateDoc(this.chatIndexRef(currentUser.uid, chatId), {
+        isArchived: archive
+      });
+
+      return ok();
+    });
+  }
+
+  // Mute/unmute chat for current user
+  toggleMuteChat(chatId: string, mute: boolean): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      await updateDoc(this.chatIndexRef(currentUser.uid, chatId), {
+        isMuted: mute
+      });
+
+      return ok();
+    });
+  }
+
+  // Pin/unpin chat for current user
+  togglePinChat(chatId: string, pin: boolean): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      await updateDoc(this.chatIndexRef(currentUser.uid, chatId), {
+        isPinned: pin
+      });
+
+      return ok();
+    });
+  }
+
+  // Block/unblock user
+  toggleBlockUser(userId: string, block: boolean): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const userRef = this.userRef(currentUser.uid);
+      const userData = (await getDoc(userRef)).data();
+
+      if (!userData) return fail('NOT_FOUND');
+
+      const blockedUsers = userData.blockedUsers || [];
+
+      if (block && !blockedUsers.includes(userId)) {
+        await updateDoc(userRef, {
+          blockedUsers: [...blockedUsers, userId]
+        });
+      } else if (!block && blockedUsers.includes(userId)) {
+        await updateDoc(userRef, {
+          blockedUsers: blockedUsers.filter(id => id !== userId)
+        });
+      }
+
+      return ok();
+    });
+  }
+
+  // Get blocked users list
+  async getBlockedUsers(): Promise<User[]> {
+    const currentUser = this.auth.currentUser;
+    if (!currentUser) return [];
+
+    const userData = (await getDoc(this.userRef(currentUser.uid))).data();
+
+    return this.users.getUsers(userData?.blockedUsers || []);
+  }
+
+  // Clear chat history: a cutoff in the user's own index entry, or deleting all messages
+  clearChatHistory(chatId: string, mode: DeleteMode, onProgress?: DeletionProgress): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      if (mode === 'me') {
+        // The cutoff covers every message hidden one by one so far
+        await this.updateHidden(currentUser.uid, chatId, {
+          clearedAt: serverTimestamp(),
+          hiddenMessageIds: [],
+          unreadCount: 0
+        });
+        return ok();
+      }
+
+      const chatData = (await getDoc(this.chatRef(chatId))).data();
+      if (!chatData) return fail('NOT_FOUND', 'chat');
+      // Only group admins can remove other people's messages (firestore.rules)
+      if (chatData.type !== 'group') {
+        return fail('PERMISSION_DENIED', 'group_only');
+      }
+      if (!chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      // The onMessageDeleted function clears the preview once the latest message is gone
+      await this.deleteMessages(chatId, onProgress);
+
+      return ok();
+    });
+  }
+
+  // Delete chat: per-user for direct chats, for everyone (admins only) for groups
+  deleteChat(chatId: string, onProgress?: DeletionProgress): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const chatRef = this.chatRef(chatId);
+      const chatData = (await getDoc(chatRef)).data();
+      if (!chatData) return fail('NOT_FOUND', 'chat');
+
+      const isGroup = chatData.type === 'group';
+      if (isGroup && !chatData.admins?.includes(currentUser.uid)) {
+        return fail('PERMISSION_DENIED', 'admin_only');
+      }
+
+      // The other side of a direct chat keeps it and its history. Both stay participants, so their new messages
+      // still reach this user (the onMessageCreated function restores the index entry) and starting a chat with
+      // them again reuses this one. Only the last one out deletes it.
+      if (!isGroup && chatData.participants.some(uid => uid !== currentUser.uid && !chatData.deletedBy?.[uid])) {
+        const batch = writeBatch(this.db);
+        batch.update(chatRef, { [`deletedBy.${currentUser.uid}`]: serverTimestamp() });
+        batch.delete(this.chatIndexRef(currentUser.uid, chatId));
+        await batch.commit();
+        return ok();
+      }
+
+      // Messages first: the rules check membership on the chat document, so it goes last
+      await this.deleteMessages(chatId, onProgress);
+
+      // Direct chats: the other side's entry went when they deleted it, and only admins may delete others' entries
+      const batch = writeBatch(this.db);
+      (isGroup ? chatData.participants : [currentUser.uid]).forEach(uid => batch.delete(this.chatIndexRef(uid, chatId)));
+      batch.delete(chatRef);
+      await batch.commit();
+
+      return ok();
+    });
+  }
+
+  // Edit message with 15-minute time limit
+  editMessage(chatId: string, messageId: string, newText: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      const messageRef = doc(this.messagesRef(chatId), messageId);
+      const data = (await getDoc(messageRef)).data();
+
+      // Deleted messages stay deleted; an edit would bring the text back
+      if (!data || data.deletedAt) {
+        return fail('NOT_FOUND', 'message');
+      }
+
+      // Check if user is the sender
+      if (data.senderId !== currentUser.uid) {
+        return fail('PERMISSION_DENIED', 'own_messages_only');
+      }
+
+      const chatData = (await getDoc(this.chatRef(chatId))).data();
+      if (!chatData) return fail('NOT_FOUND', 'chat');
+
+      const { editWindowMinutes } = policyOf(chatData);
+      if (!isWithinWindow(editWindowMinutes, data.createdAt)) {
+        return fail('TIME_WINDOW_EXPIRED', 'edit', editWindowMinutes ?? undefined);
+      }
+
+      const body = await this.encodeBody(chatData, currentUser.uid, newText);
+      if (!body) return fail('ENCRYPTION');
+
+      // The replaced version is stored as it was, ciphertext and all, next to the edit
+      const batch = writeBatch(this.db);
+      batch.set(doc(collection(this.db, 'chats', chatId, 'messages', messageId, 'revisions')), {
+        text: data.text,
+        authorId: data.senderId,
+        writtenAt: data.editedAt || data.createdAt,
+        isEncrypted: !!data.encryption,
+        iv: data.encryption?.iv || null,
+        senderPublicKey: data.encryption?.senderPublicKey || null
+      });
+      batch.update(messageRef, {
+        ...body,
+        isEdited: true,
+        editedAt: serverTimestamp()
+      });
+      await batch.commit();
+
+      return ok();
+    });
+  }
+
+  async getMessageRevisions(chatId: string, messageId: string): Promise<MessageRevision[]> {
+    if (!this.auth.currentUser) return [];
+
+    const snapshot = await getDocs(query(this.revisionsRef(chatId, messageId), orderBy('writtenAt', 'asc')));
+    return Promise.all(readDocs(snapshot.docs).map(async ({ encryption, ...revision }) => ({
+      ...revision,
+      text: await this.decryptBody(revision.text, encryption)
+    })));
+  }
+
+  // arrayUnion/arrayRemove let several people react to the same message at once without losing updates
+  addReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+
+      const messageRef = doc(this.db, 'chats', chatId, 'messages', messageId);
+      await updateDoc(messageRef, {
+        [`reactions.${emoji}`]: arrayUnion(user.uid)
+      });
+
+      return ok();
+    });
+  }
+
+  removeReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const user = this.auth.currentUser;
+      if (!user) return fail('NOT_AUTHENTICATED');
+
+      const messageRef = doc(this.db, 'chats', chatId, 'messages', messageId);
+      await updateDoc(messageRef, {
+        [`reactions.${emoji}`]: arrayRemove(user.uid)
+      });
+
+      return ok();
+    });
+  }
+
+  markMessagesAsRead(chatId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      // Reading implies delivery. Both cursors move to now, or past the newest message on screen if the clock
+      // estimate is behind it; the write itself may be coalesced with later acks.
+      const upTo = Math.max(serverNow(), this.newestReceived.get(chatId) || 0);
+      this.queueReceipts(chatId, { deliveredUpTo: upTo, readUpTo: upTo });
+
+      // Merged: the index entry may not exist yet (a chat just joined, before onChatWritten ran)
+      await setDoc(this.chatIndexRef(currentUser.uid, chatId), {
+        userId: currentUser.uid,
+        chatId,
+        unreadCount: 0
+      }, { merge: true });
+
+      return ok();
+    });
+  }
+
+  // Delete message: hidden for the current user, or for everyone within the 1-hour time limit
+  deleteMessage(chatId: string, messageId: string, mode: DeleteMode): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      if (mode === 'me') {
+        await this.updateHidden(currentUser.uid, chatId, { hiddenMessageIds: arrayUnion(messageId) });
+        return ok();
+      }
+
+      const messageRef = doc(this.messagesRef(chatId), messageId);
+      const data = (await getDoc(messageRef)).data();
+
+      if (!data) {
+        return fail('NOT_FOUND', 'message');
+      }
+
+      // Check if user is the sender
+      if (data.senderId !== currentUser.uid) {
+        return fail('PERMISSION_DENIED', 'own_messages_only');
+      }
+
+      const chatData = (await getDoc(this.chatRef(chatId))).data();
+      if (!chatData) return fail('NOT_FOUND', 'chat');
+
+      const { deleteWindowMinutes } = policyOf(chatData);
+      if (!isWithinWindow(deleteWindowMinutes, data.createdAt)) {
+        return fail('TIME_WINDOW_EXPIRED', 'delete', deleteWindowMinutes ?? undefined);
+      }
+
+      // The functions delete the attachment's file. The encryption fields go too: the tombstone is plain text.
+      await updateDoc(messageRef, {
+        deletedAt: serverTimestamp(),
+        text: 'Message deleted',
+        attachment: deleteField(),
+        iv: deleteField(),
+        isEncrypted: deleteField(),
+        senderPublicKey: deleteField()
+      });
+
+      return ok();
+    });
+  }
+
+  pinMessage(chatId: string, messageId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const messageRef = doc(this.db, 'chats', chatId, 'messages', messageId);
+      await updateDoc(messageRef, {
+        isPinned: true
+      });
+
+      return ok();
+    });
+  }
+
+  unpinMessage(chatId: string, messageId: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const messageRef = doc(this.db, 'chats', chatId, 'messages', messageId);
+      await updateDoc(messageRef, {
+        isPinned: false
+      });
+
+      return ok();
+    });
+  }
+
+  // Report a user
+  reportUser(userId: string, reason: string, description: string): Promise<ActionResult> {
+    return this.attempt(async () => {
+      const currentUser = this.auth.currentUser;
+      if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+      await addDoc(collection(this.db, 'reports'), {
+        reportedUserId: userId,
+        reporterId: currentUser.uid,
+        reason,
+        description,
+        createdAt: serverTimestamp(),
+        status: 'pending'
+      });
+      return ok();
+    });
+  }
+
+  // --- Helpers ---
+
+  // Actions resolve to an ActionResult even when Firestore rejects (rules, network, quota)
+  private async attempt<T>(action: () => Promise<ActionResult<T>>): Promise<ActionResult<T>> {
+    try {
+      return await action();
+    } catch (err) {
+      console.error("Firestore action failed", err);
+      return { success: false, error: toChatError(err) };
+    }
+  }
+
+  // Upload a file to chats/{chatId}/attachments/{messageId}/ and send the message pointing at it
+  private async uploadAndSend(
+    chatId: string,
+    file: Blob,
+    details: Omit<Attachment, 'url' | 'storagePath'>,
+    message: { type: 'attachment' | 'audio'; receiverId: string; replyTo?: Message['replyTo'] },
+    options: UploadOptions
+  ): Promise<ActionResult> {
+    const currentUser = this.auth.currentUser;
+    if (!currentUser) return fail('NOT_AUTHENTICATED');
+
+    const chatData = (await getDoc(this.chatRef(chatId))).data();
+    if (!chatData) return fail('NOT_FOUND', 'chat');
+    if (options.signal?.aborted) return fail('CANCELLED');
+
+    // The message ID is picked first so the file can live under it
+    const messageRef = doc(collection(this.db, 'chats', chatId, 'messages'));
+    const storagePath = `chats/${chatId}/attachments/${messageRef.id}/${storageFileName(details.name)}`;
+    const fileRef = ref(this.storage, storagePath);
+
+    const task = uploadBytesResumable(fileRef, file, {
+      contentType: details.mimeType,
+      // Generic files download under their own name instead of opening in the browser
+      contentDisposition: details.kind === 'file' ? `attachment; filename*=UTF-8''${encodeURIComponent(details.name)}` : undefined
+    });
+    const cancel = () => task.cancel();
+    options.signal?.addEventListener('abort', cancel);
+    task.on('state_changed', snapshot => options.onProgress?.(snapshot.bytesTransferred / (snapshot.totalBytes || 1)));
+    try {
+      await task;
+    } finally {
+      options.signal?.removeEventListener('abort', cancel);
+    }
+
+    const url = await getDownloadURL(fileRef);
+    try {
+      // Attachments carry no text, so there's nothing to encrypt
+      await setDoc(messageRef, {
+        text: '',
+        iv: null,
+        isEncrypted: false,
+        senderPublicKey: null,
+        senderId: currentUser.uid,
+        receiverId: message.receiverId,
+        createdAt: serverTimestamp(),
+        expiresAt: expiryFor(chatData.disappearingMinutes) || null,
+        status: MessageStatus.SENT,
+        replyTo: message.replyTo || null,
+        reactions: {},
+        type: message.type,
+        attachment: { ...details, url, storagePath }
+      });
+    } catch (err) {
+      // No message will ever point at the file
+      deleteObject(fileRef).catch(cleanupErr => console.warn("Failed to delete orphaned attachment", cleanupErr));
+      throw err;
+    }
+
+    return ok();
+  }
+
+  // Delete a chat's messages DELETE_BATCH_SIZE at a time. Messages arriving meanwhile are deleted too.
+  private async deleteMessages(chatId: string, onProgress?: DeletionProgress) {
+    const messagesRef = collection(this.db, 'chats', chatId, 'messages');
+    const total = (await getCountFromServer(messagesRef)).data().count;
+    let deleted = 0;
+    onProgress?.(0, total);
+
+    for (;;) {
+      const snapshot = await getDocs(query(messagesRef, limit(DELETE_BATCH_SIZE)));
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(this.db);
+      snapshot.docs.forEach(d => batch.delete(d.ref));
+      await batch.commit();
+
+      deleted += snapshot.size;
+      onProgress?.(deleted, Math.max(total, deleted));
+    }
+  }
+
+  private chatIndexRef(uid: string, chatId: string): DocumentReference {
+    return doc(this.db, 'users', uid, 'chats', chatId);
+  }
+
+  // Typed references for reads. Writes go through plain field maps (serverTimestamp, increment, dot paths),
+  // which update() passes through untouched.
+  private chatsRef() {
+    return collection(this.db, 'chats').withConverter(chatConverter);
+  }
+
+  private chatRef(chatId: string) {
+    return doc(this.chatsRef(), chatId);
+  }
+
+  private messagesRef(chatId: string) {
+    return collection(this.db, 'chats', chatId, 'messages').withConverter(messageConverter);
+  }
+
+  private revisionsRef(chatId: string, messageId: string) {
+    return collection(this.db, 'chats', chatId, 'messages', messageId, 'revisions').withConverter(revisionConverter);
+  }
+
+  private userRef(userId: string) {
+    return doc(this.db, 'users', userId).withConverter(userConverter);
+  }
+
+  private newChatIndexEntry(uid: string, chatId: string, chatData: DocumentData) {
+    const type = chatData.type || 'direct';
+    return {
+      userId: uid,
+      chatId,
+      type,
+      otherUserId: type === 'direct' ? chatData.participants.find((p: string) => p !== uid) || '' : '',
+      lastMessage: chatData.lastMessage || '',
+      lastMessageAt: chatData.lastMessageAt || serverTimestamp(),
+      lastMessageSender: chatData.lastMessageSender || '',
+      unreadCount: 0,
+      isArchived: false,
+      isMuted: false,
+      isPinned: false
+    };
+  }
+
+  private mapChatIndexEntry(data: DocumentData, chatId: string, uid: string): UserChat {
+    return {
+      userId: uid,
+      chatId,
+      type: data.type || 'direct',
+      lastMessage: data.lastMessage || '',
+      lastMessageAt: data.lastMessageAt?.toDate() || new Date(),
+      lastMessageSender: data.lastMessageSender || '',
+      unreadCount: data.unreadCount || 0,
+      otherUserId: data.otherUserId || '',
+      isArchived: data.isArchived || false,
+      isMuted: data.isMuted || false,
+      isPinned: data.isPinned || false,
+      hiddenMessageIds: Array.isArray(data.hiddenMessageIds) ? data.hiddenMessageIds : [],
+      clearedAt: data.clearedAt?.toDate() || null
+    };
+  }
+
+  // The current user's "Delete for me" state for a chat
+  private async getHidden(chatId: string): Promise<HiddenMessages> {
+    const user = this.auth.currentUser;
+    if (!user) return NOTHING_HIDDEN;
+    const snapshot = await getDoc(this.chatIndexRef(user.uid, chatId));
+    return this.mapChatIndexEntry(snapshot.data() || {}, chatId, user.uid);
+  }
+
+  // Merged so entries missing since before the chat index still end up valid
+  private updateHidden(uid: string, chatId: string, fields: DocumentData) {
+    return setDoc(this.chatIndexRef(uid, chatId), { userId: uid, chatId, ...fields }, { merge: true });
+  }
+
+  // One-off move of the per-user maps on chat documents (unreadCounts, archivedStatus, mutedStatus,
+  // pinnedStatus) into users/{uid}/chats. Runs once per user; progress is recorded as chatIndexVersion.
+  private migrateChatIndex(uid: string): Promise<void> {
+    let migration = this.chatIndexMigrations.get(uid);
+    if (!migration) {
+      migration = this.runChatIndexMigration(uid);
+      this.chatIndexMigrations.set(uid, migration);
+      migration.catch(() => this.chatIndexMigrations.delete(uid));
+    }
+    return migration;
+  }
+
+  private async runChatIndexMigration(uid: string): Promise<void> {
+    const userRef = doc(this.db, 'users', uid);
+    const userSnap = await getDoc(userRef);
+    if ((userSnap.data()?.chatIndexVersion || 0) >= CHAT_INDEX_VERSION) return;
+
+    const chatsSnap = await getDocs(query(
+      collection(this.db, 'chats'),
+      where('participants', 'array-contains', uid)
+    ));
+
+    for (const chatDoc of chatsSnap.docs) {
+      const data = chatDoc.data();
+      const indexRef = this.chatIndexRef(uid, chatDoc.id);
+      // Another participant may already have bumped this user's counter on the new index
+      const existing = (await getDoc(indexRef)).data();
+
+      const batch = writeBatch(this.db);
+      batch.set(indexRef, {
+        ...this.newChatIndexEntry(uid, chatDoc.id, data),
+        unreadCount: (existing?.unreadCount || 0) + (data.unreadCounts?.[uid] || 0),
+        isArchived: data.archivedStatus?.[uid] || false,
+        isMuted: data.mutedStatus?.[uid] || false,
+        isPinned: data.pinnedStatus?.[uid] || false
+      });
+      batch.update(chatDoc.ref, {
+        [`unreadCounts.${uid}`]: deleteField(),
+        [`archivedStatus.${uid}`]: deleteField(),
+        [`mutedStatus.${uid}`]: deleteField(),
+        [`pinnedStatus.${uid}`]: deleteField()
+      });
+      await batch.commit();
+    }
+
+    await updateDoc(userRef, { chatIndexVersion: CHAT_INDEX_VERSION });
+  }
+
+  // Keeps the participants of the chats a listener shows loaded and live in the user directory
+  private watchMembers(onChange: () => void) {
+    let watchedKey = '';
+    let unsubscribe: Unsubscribe = () => { };
+
+    return {
+      // Never rejects: it runs inside snapshot callbacks, and the chat should still show without member profiles
+      update: async (userIds: string[]) => {
+        const ids = [...new Set(userIds)].sort();
+        try {
+          await this.users.getUsers(ids);
+        } catch (err) {
+          console.error("Failed to load chat members", err);
+        }
+
+        const key = ids.join(',');
+        if (key === watchedKey) return;
+        unsubscribe();
+        unsubscribe = this.users.subscribe(ids, onChange);
+        watchedKey = key;
+      },
+      stop: () => unsubscribe()
+    };
+  }
+
+  // Read messages through the converter and decrypt E2EE ones where this device holds the key
+  private async decodeMessages(docs: QueryDocumentSnapshot<MessageDocument>[]): Promise<Message[]> {
+    const messages: Message[] = [];
+
+    for (const { encryption, ...message } of readDocs(docs)) {
+      messages.push({ ...message, text: await this.decryptBody(message.text, encryption) });
+    }
+
+    return messages;
+  }
+
+  private async decryptBody(text: string, encryption: Encryption | undefined): Promise<string> {
+    const uid = this.auth.currentUser?.uid;
+    if (!encryption || !uid || !hasPrivateKey(uid)) return text;
+
+    return (await this.readBody(text, encryption)) ?? "🔒 Encrypted message (click to decrypt or keys missing)";
+  }
+
+  // Plain text of a message body, or null when it's encrypted and this device can't open it
+  private async readBody(text: string, encryption: Encryption | undefined): Promise<string | null> {
+    const uid = this.auth.currentUser?.uid;
+    if (!encryption) return text;
+    if (!uid || !hasPrivateKey(uid)) return null;
+
+    try {
+      return await decryptText(uid, text, encryption.iv, encryption.senderPublicKey);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Message body fields for text sent to this chat. Direct chats are end-to-end encrypted when both sides have
+  // published a key and this device holds the private one. Null when encryption fails: both sides use E2EE,
+  // so the text must never go out in plain form.
+  private async encodeBody(chat: ChatDocument, uid: string, text: string) {
+    const plain = { text, iv: null, isEncrypted: false, senderPublicKey: null };
+
+    const otherUserId = chat.type === 'direct' ? chat.participants.find(p => p !== uid) : undefined;
+    if (!otherUserId || !hasPrivateKey(uid)) return plain;
+
+    const [otherUser, me] = await Promise.all([getDoc(this.userRef(otherUserId)), getDoc(this.userRef(uid))]);
+    const otherPublicKey = otherUser.data()?.publicKey;
+    const myPublicKey = me.data()?.publicKey;
+    if (!otherPublicKey || !myPublicKey) return plain;
+
+    try {
+      const encrypted = await encryptText(uid, text, otherPublicKey);
+      return { text: encrypted.ciphertext, iv: encrypted.iv, isEncrypted: true, senderPublicKey: myPublicKey };
+    } catch (e) {
+      console.error("Encryption failed", e);
+      return null;
+    }
+  }
+
+  // Client-side text match over decoded messages (Firestore has no full-text search)
+  private matchMessages(messages: Message[], searchQuery: string): Message[] {
+    const searchLower = searchQuery.toLowerCase();
+    return messages.filter(m => !m.deletedAt && m.type !== 'system' && m.text.toLowerCase().includes(searchLower));
+  }
+
+  // Build a chat from its document, joining participants from the user directory cache.
+  // Callers make sure the participants were loaded first.
+  private buildChat(chat: ChatDocument, uid: string, entry?: UserChat): Chat {
+    let otherUser: User | undefined;
+    let groupMembers: User[] = [];
+
+    if (chat.type === 'direct') {
+      const otherUserId = chat.participants.find(p => p !== uid);
+      otherUser = otherUserId ? this.users.get(otherUserId) : undefined;
+    } else {
+      groupMembers = chat.participants
+        .map(memberId => this.users.get(memberId))
+        .filter((m): m is User => m !== undefined);
+    }
+
+    return {
+      ...chat,
+      otherUser,
+      groupMembers,
+      // Per-user state from the chat index, when the caller has it
+      lastMessage: entry ? visiblePreview(chat, entry) : chat.lastMessage,
+      unreadCount: entry?.unreadCount,
+      isArchived: entry?.isArchived,
+      isMuted: entry?.isMuted,
+      isPinned: entry?.isPinned
+    };
+  }
+
+  // Receiving a chat snapshot means this client has received its latest message.
+  // Moves the caller's delivery cursor past it; the cursor doubles as the delivery time.
+  private acknowledgeDelivery(chat: ChatDocument, uid: string) {
+    if (!chat.lastMessageSender || chat.lastMessageSender === uid) return;
+
+    const millis = chat.lastMessageAt.getTime();
+    if ((chat.deliveredUpTo?.[uid]?.getTime() || 0) >= millis) return;
+    this.queueReceipts(chat.chatId, { deliveredUpTo: Math.max(serverNow(), millis) });
+  }
+
+  // Cursors only move forward. The first ack in a while is written right away, later ones together when the
+  // interval is up.
+  private queueReceipts(chatId: string, cursors: Partial<Record<ReceiptCursor, number>>) {
+    let state = this.receipts.get(chatId);
+    if (!state) {
+      state = { written: { deliveredUpTo: 0, readUpTo: 0 }, pending: {}, lastWriteAt: 0, timer: null };
+      this.receipts.set(chatId, state);
+    }
+
+    (Object.entries(cursors) as [ReceiptCursor, number][]).forEach(([cursor, millis]) => {
+      if (millis > Math.max(state.written[cursor], state.pending[cursor] || 0)) state.pending[cursor] = millis;
+    });
+    if (Object.keys(state.pending).length === 0 || state.timer) return;
+
+    const wait = state.lastWriteAt + RECEIPT_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      this.flushReceipts(chatId);
+    } else {
+      state.timer = setTimeout(() => this.flushReceipts(chatId), wait);
+    }
+  }
+
+  private flushReceipts(chatId: string) {
+    const state = this.receipts.get(chatId);
+    const uid = this.auth.currentUser?.uid;
+    if (!state) return;
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+
+    const pending = Object.entries(state.pending) as [ReceiptCursor, number][];
+    if (!uid || pending.length === 0) return;
+
+    state.pending = {};
+    state.lastWriteAt = Date.now();
+    pending.forEach(([cursor, millis]) => { state.written[cursor] = millis; });
+    updateDoc(this.chatRef(chatId), Object.fromEntries(
+      pending.map(([cursor, millis]) => [`${cursor}.${uid}`, Timestamp.fromMillis(millis)])
+    )).catch(err => console.error("Failed to update receipts", err));
+  }
+
+  // Signing out: write what is still waiting, then forget this user's cursors
+  private flushAllReceipts() {
+    [...this.receipts.keys()].forEach(chatId => this.flushReceipts(chatId));
+    this.receipts.clear();
+    this.newestReceived.clear();
+  }
+
+  private mapFirebaseUser(user: FirebaseUser): User {
+    return {
+      userId: user.uid,
+      displayName: user.displayName || 'User',
+      email: user.email || '',
+      photoURL: user.photoURL || '',
+      isOnline: true,
+      lastSeen: new Date(),
+      createdAt: new Date(user.metadata.creationTime || Date.now())
+    };
+  }
+}
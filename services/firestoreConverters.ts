@@ -0,0 +1,247 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  Timestamp
+} from 'firebase/firestore';
+import { User, Chat, Attachment, Message, MessageRevision, MessageStatus } from '../types';
+
+// Single mapping between Firestore documents and the app models.
+// Every field is type-checked on read: documents written by older versions of the app miss fields or
+// store them in another shape (e.g. typingUsers as booleans), so anything unexpected falls back to a default.
+// Documents without the fields nothing works without (participants, senderId) are rejected.
+
+// Chat documents carry no per-user or joined data; FirestoreBackend.buildChat adds it
+export type ChatDocument = Omit<Chat, 'otherUser' | 'groupMembers' | 'unreadCount' | 'isArchived' | 'isMuted' | 'isPinned'>;
+
+// Encrypted messages keep what decryption needs next to the ciphertext in `text`
+export interface Encryption {
+  iv: string;
+  senderPublicKey: string;
+}
+
+export interface MessageDocument extends Message {
+  encryption?: Encryption;
+}
+
+// Revisions keep the encryption of the body they replaced
+export interface RevisionDocument extends MessageRevision {
+  encryption?: Encryption;
+}
+
+// --- Field readers ---
+
+const asString = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+
+const asOptionalString = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+const asBoolean = (value: unknown) => value === true;
+
+const asStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// Pending server timestamps read as null until the write is acknowledged
+const asDate = (value: unknown) => value instanceof Timestamp ? value.toDate() : undefined;
+
+const asDateMap = (value: unknown): { [userId: string]: Date } =>
+  Object.fromEntries(
+    Object.entries(isRecord(value) ? value : {})
+      .filter((entry): entry is [string, Timestamp] => entry[1] instanceof Timestamp)
+      .map(([userId, ts]) => [userId, ts.toDate()])
+  );
+
+const asMinutes = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+
+// Missing or malformed windows fall back to the default policy; null (no limit) is kept
+const asWindow = (value: unknown) =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0) ? value as number | null : undefined;
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored flat as isEncrypted/iv/senderPublicKey
+const asEncryption = (data: DocumentData): Encryption | undefined => {
+  const iv = asOptionalString(data.iv);
+  const senderPublicKey = asOptionalString(data.senderPublicKey);
+  return asBoolean(data.isEncrypted) && iv && senderPublicKey ? { iv, senderPublicKey } : undefined;
+};
+
+// Attachments without a file to point at are dropped
+const asAttachment = (value: unknown): Attachment | undefined => {
+  if (!isRecord(value) || typeof value.url !== 'string' || typeof value.storagePath !== 'string') return undefined;
+  return {
+    kind: oneOf(value.kind, ATTACHMENT_KINDS, 'file'),
+    url: value.url,
+    storagePath: value.storagePath,
+    name: asString(value.name, 'file'),
+    mimeType: asString(value.mimeType),
+    size: typeof value.size === 'number' ? value.size : 0,
+    width: typeof value.width === 'number' ? value.width : undefined,
+    height: typeof value.height === 'number' ? value.height : undefined,
+    thumbnail: asOptionalString(value.thumbnail),
+    durationMs: typeof value.durationMs === 'number' ? value.durationMs : undefined,
+    waveform: Array.isArray(value.waveform) ? value.waveform.filter((level): level is number => typeof level === 'number') : undefined
+  };
+};
+
+const invalid = (kind: string, id: string, reason: string) =>
+  new Error(`Invalid ${kind} document ${id}: ${reason}`);
+
+// Firestore rejects undefined values; joined and ID fields never get written back
+const toDocument = (model: object, omit: string[]): DocumentData =>
+  Object.fromEntries(Object.entries(model).filter(([key, value]) => value !== undefined && !omit.includes(key)));
+
+// --- Converters ---
+
+const VISIBILITY = ['everyone', 'nobody'] as const;
+const CHAT_TYPES = ['direct', 'group'] as const;
+const MESSAGE_TYPES = ['text', 'system', 'attachment', 'audio'] as const;
+const ATTACHMENT_KINDS = ['image', 'video', 'file', 'audio'] as const;
+
+export const userConverter: FirestoreDataConverter<User> = {
+  toFirestore: (user: PartialWithFieldValue<User>) => toDocument(user, []),
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): User {
+    const data = snapshot.data(options);
+    const privacy = isRecord(data.privacySettings) ? data.privacySettings : undefined;
+
+    return {
+      userId: snapshot.id,
+      displayName: asString(data.displayName, 'User'),
+      email: asString(data.email),
+      photoURL: asString(data.photoURL),
+      isOnline: asBoolean(data.isOnline),
+      lastSeen: asDate(data.lastSeen) || new Date(),
+      createdAt: asDate(data.createdAt) || new Date(),
+      blockedUsers: asStringArray(data.blockedUsers),
+      publicKey: asOptionalString(data.publicKey),
+      privacySettings: privacy && {
+        showLastSeen: oneOf(privacy.showLastSeen, VISIBILITY, 'everyone'),
+        showPhoto: oneOf(privacy.showPhoto, VISIBILITY, 'everyone'),
+        showOnline: oneOf(privacy.showOnline, VISIBILITY, 'everyone'),
+        defaultDisappearingMinutes: asMinutes(privacy.defaultDisappearingMinutes)
+      }
+    };
+  }
+};
+
+export const chatConverter: FirestoreDataConverter<ChatDocument> = {
+  toFirestore: (chat: PartialWithFieldValue<ChatDocument>) => toDocument(chat, ['chatId']),
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): ChatDocument {
+    const data = snapshot.data(options);
+    if (!Array.isArray(data.participants)) throw invalid('chat', snapshot.id, 'missing participants');
+
+    const type = oneOf(data.type, CHAT_TYPES, 'direct');
+
+    return {
+      chatId: snapshot.id,
+      type,
+      participants: asStringArray(data.participants),
+      lastMessage: asString(data.lastMessage),
+      lastMessageAt: asDate(data.lastMessageAt) || new Date(),
+      lastMessageSender: asString(data.lastMessageSender),
+      lastMessageId: asOptionalString(data.lastMessageId),
+      createdAt: asDate(data.createdAt) || new Date(),
+      name: asOptionalString(data.name),
+      description: asOptionalString(data.description),
+      admins: type === 'group' ? asStringArray(data.admins) : undefined,
+      disappearingMinutes: asMinutes(data.disappearingMinutes),
+      editWindowMinutes: asWindow(data.editWindowMinutes),
+      deleteWindowMinutes: asWindow(data.deleteWindowMinutes),
+      typingUsers: asDateMap(data.typingUsers),
+      deliveredUpTo: asDateMap(data.deliveredUpTo),
+      readUpTo: asDateMap(data.readUpTo),
+      deletedBy: asDateMap(data.deletedBy)
+    };
+  }
+};
+
+export const messageConverter: FirestoreDataConverter<MessageDocument> = {
+  toFirestore(message: PartialWithFieldValue<MessageDocument>) {
+    const { encryption, ...rest } = message;
+    return toDocument({ ...rest, ...(isRecord(encryption) ? encryption : {}) }, ['messageId']);
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): MessageDocument {
+    const data = snapshot.data(options);
+    if (typeof data.senderId !== 'string') throw invalid('message', snapshot.id, 'missing senderId');
+
+    const replyTo = isRecord(data.replyTo) && typeof data.replyTo.messageId === 'string'
+      ? {
+        messageId: data.replyTo.messageId,
+        text: asString(data.replyTo.text),
+        senderDisplayName: asString(data.replyTo.senderDisplayName, 'User')
+      }
+      : undefined;
+
+    const reactions = Object.fromEntries(
+      Object.entries(isRecord(data.reactions) ? data.reactions : {})
+        .map(([emoji, userIds]) => [emoji, asStringArray(userIds)])
+        .filter(([, userIds]) => userIds.length > 0)
+    );
+
+    const isEncrypted = asBoolean(data.isEncrypted);
+
+    return {
+      messageId: snapshot.id,
+      text: asString(data.text),
+      senderId: data.senderId,
+      receiverId: asString(data.receiverId),
+      createdAt: asDate(data.createdAt) || new Date(),
+      status: oneOf(data.status, Object.values(MessageStatus), MessageStatus.SENT),
+      replyTo,
+      reactions,
+      type: oneOf(data.type, MESSAGE_TYPES, 'text'),
+      attachment: asAttachment(data.attachment),
+      playedBy: asStringArray(data.playedBy),
+      isPinned: asBoolean(data.isPinned),
+      isEdited: asBoolean(data.isEdited),
+      editedAt: asDate(data.editedAt),
+      deletedAt: asDate(data.deletedAt),
+      forwardedFrom: asOptionalString(data.forwardedFrom),
+      isEncrypted,
+      expiresAt: asDate(data.expiresAt),
+      encryption: asEncryption(data)
+    };
+  }
+};
+
+export const revisionConverter: FirestoreDataConverter<RevisionDocument> = {
+  toFirestore(revision: PartialWithFieldValue<RevisionDocument>) {
+    const { encryption, ...rest } = revision;
+    return toDocument({ ...rest, isEncrypted: isRecord(encryption), ...(isRecord(encryption) ? encryption : {}) }, ['revisionId']);
+  },
+
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): RevisionDocument {
+    const data = snapshot.data(options);
+    if (typeof data.authorId !== 'string') throw invalid('revision', snapshot.id, 'missing authorId');
+
+    return {
+      revisionId: snapshot.id,
+      text: asString(data.text),
+      authorId: data.authorId,
+      writtenAt: asDate(data.writtenAt) || new Date(),
+      encryption: asEncryption(data)
+    };
+  }
+};
+
+// Read snapshots through their converter, skipping missing documents and (with a warning) ones that fail
+// validation, so one bad document doesn't take down a whole list
+export const readDocs = <T>(docs: DocumentSnapshot<T>[]): T[] =>
+  docs.flatMap(d => {
+    try {
+      const data = d.data();
+      return data === undefined ? [] : [data];
+    } catch (err) {
+      console.warn("Skipping unreadable document", d.ref.path, err);
+      return [];
+    }
+  });
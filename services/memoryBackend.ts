@@ -0,0 +1,1033 @@
+import { User, Chat, Attachment, Message, MessageRevision, MessageStatus } from '../types';
+import { ChatBackend, ChatListOptions, DeleteMode, DeletionProgress, GlobalSearchResult, MessagePage, UploadOptions, VoiceRecording, CHAT_PAGE_SIZE, MAX_REACTION_EMOJIS, MESSAGE_PAGE_SIZE } from './chatBackend';
+import { ActionResult, fail, ok } from './chatErrors';
+import { generateKeyPair } from './e2ee';
+import { HEARTBEAT_INTERVAL_MS, PresenceTracker } from './presence';
+import { MOCK_USERS, MOCK_CHATS, MOCK_MESSAGES } from './mockData';
+import { describeTimerChange, expiryFor } from '../utils/disappearing';
+import { MessagePolicy, isWithinWindow, policyOf } from '../utils/messagePolicy';
+import { HiddenMessages, visiblePreview, withoutHidden } from '../utils/hiddenMessages';
+import { describeAttachment, messageSummary, rejectAttachment, storageFileName } from '../utils/attachments';
+import { baseMimeType, rejectVoiceRecording } from '../utils/voice';
+
+const SESSION_KEY = 'memory_backend_uid';
+
+// Simulated attachment upload
+const UPLOAD_STEPS = 5;
+const UPLOAD_STEP_MS = 150;
+
+// Chat as it would be stored server-side: per-user settings live in maps keyed by user ID
+interface StoredChat {
+  chatId: string;
+  type: 'direct' | 'group';
+  participants: string[];
+  lastMessage: string;
+  lastMessageAt: Date;
+  lastMessageSender: string;
+  lastMessageId?: string;
+  createdAt: Date;
+  name?: string;
+  description?: string;
+  admins?: string[];
+  disappearingMinutes: number | null;
+  // Unset until an admin changes the policy, like in Firestore
+  editWindowMinutes?: number | null;
+  deleteWindowMinutes?: number | null;
+  unreadCounts: { [userId: string]: number };
+  archivedStatus: { [userId: string]: boolean };
+  mutedStatus: { [userId: string]: boolean };
+  pinnedStatus: { [userId: string]: boolean };
+  typingUsers: { [userId: string]: Date };
+  deliveredUpTo: { [userId: string]: Date };
+  readUpTo: { [userId: string]: Date };
+  hiddenMessageIds: { [userId: string]: string[] };
+  clearedAt: { [userId: string]: Date };
+  deletedBy: { [userId: string]: Date };
+}
+
+interface StoredReport {
+  reportedUserId: string;
+  reporterId: string;
+  reason: string;
+  description: string;
+  createdAt: Date;
+  status: 'pending';
+}
+
+const authError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Offline backend seeded from mockData. State lives for the lifetime of the page;
+// only the signed-in user ID is persisted so a reload keeps the session.
+export class MemoryBackend implements ChatBackend {
+  private users: Record<string, User> = {};
+  private chats: Record<string, StoredChat> = {};
+  private messages: Record<string, Message[]> = {};
+  private revisions: Record<string, MessageRevision[]> = {}; // By messageId, oldest first
+  private reports: StoredReport[] = [];
+
+  private currentUserId: string | null = null;
+  private authListeners = new Set<(user: User | null) => void>();
+  private listeners = new Set<() => void>();
+  private presence: PresenceTracker | null = null;
+
+  constructor() {
+    Object.values(MOCK_USERS).forEach(u => { this.users[u.userId] = { ...u }; });
+
+    MOCK_CHATS.forEach(c => {
+      this.chats[c.chatId] = {
+        chatId: c.chatId,
+        type: c.type,
+        participants: [...c.participants],
+        lastMessage: c.lastMessage,
+        lastMessageAt: c.lastMessageAt,
+        lastMessageSender: c.lastMessageSender,
+        createdAt: c.createdAt,
+        name: c.name,
+        description: c.description,
+        admins: c.admins,
+        disappearingMinutes: null,
+        unreadCounts: Object.fromEntries(c.participants.map(uid => [uid, 0])),
+        archivedStatus: {},
+        mutedStatus: {},
+        pinnedStatus: {},
+        typingUsers: {},
+        // Seeded history counts as delivered to and read by everyone
+        deliveredUpTo: Object.fromEntries(c.participants.map(uid => [uid, c.lastMessageAt])),
+        readUpTo: Object.fromEntries(c.participants.map(uid => [uid, c.lastMessageAt])),
+        hiddenMessageIds: {},
+        clearedAt: {},
+        deletedBy: {}
+      };
+      // Mock unread counts are from the point of view of the last message's receivers
+      c.participants
+        .filter(uid => uid !== c.lastMessageSender)
+        .forEach(uid => { this.chats[c.chatId].unreadCounts[uid] = c.unreadCount || 0; });
+    });
+
+    Object.entries(MOCK_MESSAGES).forEach(([chatId, msgs]) => {
+      this.messages[chatId] = msgs.map(m => ({ ...m }));
+    });
+
+    const savedUid = localStorage.getItem(SESSION_KEY);
+    if (savedUid && this.users[savedUid]) this.currentUserId = savedUid;
+    this.trackPresence();
+
+    // Seeded users who start online have no client of their own; keep their heartbeats going
+    const seededOnline = Object.values(MOCK_USERS).filter(u => u.isOnline).map(u => u.userId);
+    setInterval(() => {
+      seededOnline
+        .filter(id => id !== this.currentUserId && this.users[id]?.isOnline)
+        .forEach(id => { this.users[id].lastSeen = new Date(); });
+      this.emit();
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // --- Auth ---
+
+  getCurrentUser(): User | null {
+    return this.currentUserId ? { ...this.users[this.currentUserId] } : null;
+  }
+
+  onAuthStateChanged(callback: (user: User | null) => void) {
+    this.authListeners.add(callback);
+    callback(this.getCurrentUser());
+    return () => { this.authListeners.delete(callback); };
+  }
+
+  async login(email: string, password: string): Promise<User> {
+    const user = Object.values(this.users).find(u => u.email === email);
+    if (!user || password.length < 6) {
+      throw authError('auth/invalid-credential', 'Invalid email or password');
+    }
+
+    this.setSession(user.userId);
+    return { ...this.users[user.userId] };
+  }
+
+  async register(email: string, password: string, displayName: string): Promise<User> {
+    if (Object.values(this.users).some(u => u.email === email)) {
+      throw authError('auth/email-already-in-use', 'Email already in use');
+    }
+    if (password.length < 6) {
+      throw authError('auth/weak-password', 'Password should be at least 6 characters');
+    }
+
+    const newUser: User = {
+      userId: newId('user'),
+      displayName,
+      email,
+      photoURL: '',
+      isOnline: true,
+      lastSeen: new Date(),
+      createdAt: new Date()
+    };
+
+    this.users[newUser.userId] = newUser;
+    this.setSession(newUser.userId);
+    return { ...newUser };
+  }
+
+  async logout(): Promise<void> {
+    const uid = this.currentUserId;
+    this.setSession(null);
+    if (uid) this.updateUserStatus(uid, false);
+  }
+
+  async updateUserProfile(displayName: string): Promise<ActionResult> {
+    const user = this.me();
+    if (!user) return fail('NOT_AUTHENTICATED');
+
+    user.displayName = displayName;
+    this.emit();
+    return ok();
+  }
+
+  async setTypingStatus(chatId: string, isTyping: boolean): Promise<ActionResult> {
+    const user = this.me();
+    if (!user) return fail('NOT_AUTHENTICATED');
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+
+    if (isTyping) {
+      chat.typingUsers[user.userId] = new Date();
+    } else {
+      delete chat.typingUsers[user.userId];
+    }
+    this.emit();
+    return ok();
+  }
+
+  // --- Chats ---
+
+  subscribeToChats(callback: (chats: Chat[], hasMore: boolean) => void, options: ChatListOptions = {}) {
+    const uid = this.currentUserId;
+    if (!uid) return () => { };
+
+    const { archived = false, limit = CHAT_PAGE_SIZE } = options;
+
+    return this.subscribe(() => {
+      const chats = Object.values(this.chats)
+        .filter(c => c.participants.includes(uid) && !c.deletedBy[uid] && (c.archivedStatus[uid] || false) === archived)
+        .map(c => {
+          this.acknowledgeDelivery(c, uid);
+          return this.toChat(c, uid);
+        });
+
+      // Pinned chats first, then by last message time
+      chats.sort((a, b) => {
+        if (a.isPinned && !b.isPinned) return -1;
+        if (!a.isPinned && b.isPinned) return 1;
+        return b.lastMessageAt.getTime() - a.lastMessageAt.getTime();
+      });
+
+      callback(chats.slice(0, limit), chats.length > limit);
+    });
+  }
+
+  subscribeToChat(chatId: string, callback: (chat: Chat) => void) {
+    const uid = this.currentUserId;
+    if (!uid) return () => { };
+
+    return this.subscribe(() => {
+      const chat = this.chats[chatId];
+      if (!chat) return;
+      this.acknowledgeDelivery(chat, uid);
+      callback(this.toChat(chat, uid));
+    });
+  }
+
+  async searchUsers(searchTerm: string): Promise<User[]> {
+    if (!searchTerm) return [];
+
+    return Object.values(this.users)
+      .filter(u => u.email.startsWith(searchTerm) && u.userId !== this.currentUserId)
+      .slice(0, 5)
+      .map(u => ({ ...u }));
+  }
+
+  async createChat(otherUserId: string): Promise<ActionResult<string>> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const existing = Object.values(this.chats).find(c =>
+      c.type === 'direct' && c.participants.includes(uid) && c.participants.includes(otherUserId)
+    );
+    if (existing) {
+      // Deleted from this user's list earlier: put it back, without the history from before
+      if (existing.deletedBy[uid]) {
+        delete existing.deletedBy[uid];
+        this.emit();
+      }
+      return ok(existing.chatId);
+    }
+
+    const chatId = newId('chat');
+    this.chats[chatId] = this.newStoredChat(chatId, 'direct', [uid, otherUserId], {
+      lastMessage: '',
+      lastMessageSender: '',
+      disappearingMinutes: this.users[uid]?.privacySettings?.defaultDisappearingMinutes ?? null
+    });
+    this.emit();
+    return ok(chatId);
+  }
+
+  async createGroupChat(name: string, description: string, memberIds: string[]): Promise<ActionResult<string>> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chatId = newId('chat');
+    const allParticipants = [uid, ...memberIds.filter(id => id !== uid)];
+    this.chats[chatId] = this.newStoredChat(chatId, 'group', allParticipants, {
+      name,
+      description,
+      admins: [uid],
+      disappearingMinutes: this.users[uid]?.privacySettings?.defaultDisappearingMinutes ?? null,
+      lastMessage: `${name} group created`,
+      lastMessageSender: uid
+    });
+    this.emit();
+    return ok(chatId);
+  }
+
+  async addGroupMember(chatId: string, userId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+    if (chat.participants.includes(userId)) return ok();
+
+    chat.participants = [...chat.participants, userId];
+    chat.unreadCounts[userId] = 0;
+    this.emit();
+    return ok();
+  }
+
+  async removeGroupMember(chatId: string, userId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid) && uid !== userId) {
+      return fail('PERMISSION_DENIED', 'admin_only');
+    }
+    if (chat.admins?.includes(userId) && chat.admins.length === 1) {
+      return fail('PERMISSION_DENIED', 'last_admin');
+    }
+
+    chat.participants = chat.participants.filter(p => p !== userId);
+    chat.admins = (chat.admins || []).filter(a => a !== userId);
+    this.emit();
+    return ok();
+  }
+
+  async leaveGroup(chatId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    return this.removeGroupMember(chatId, uid);
+  }
+
+  async makeAdmin(chatId: string, userId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+    if (chat.admins.includes(userId)) return ok();
+
+    chat.admins = [...chat.admins, userId];
+    this.emit();
+    return ok();
+  }
+
+  async updateGroupInfo(chatId: string, name: string, description: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+
+    chat.name = name;
+    chat.description = description;
+    this.emit();
+    return ok();
+  }
+
+  async setDisappearingTimer(chatId: string, minutes: number | null): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type === 'group' && !chat.admins?.includes(uid)) {
+      return fail('PERMISSION_DENIED', 'admin_only');
+    }
+    if (chat.disappearingMinutes === minutes) return ok();
+
+    chat.disappearingMinutes = minutes;
+    this.pushMessage(chat, {
+      messageId: newId('msg'),
+      text: describeTimerChange(minutes),
+      senderId: uid,
+      receiverId: chat.type === 'group' ? 'group' : chat.participants.find(p => p !== uid) || '',
+      createdAt: new Date(),
+      status: MessageStatus.SENT,
+      reactions: {},
+      type: 'system'
+    }, false);
+    this.emit();
+    return ok();
+  }
+
+  async setMessagePolicy(chatId: string, policy: MessagePolicy): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+
+    chat.editWindowMinutes = policy.editWindowMinutes;
+    chat.deleteWindowMinutes = policy.deleteWindowMinutes;
+    this.emit();
+    return ok();
+  }
+
+  async getChatsForForward(): Promise<Chat[]> {
+    const uid = this.currentUserId;
+    if (!uid) return [];
+
+    return Object.values(this.chats)
+      .filter(c => c.participants.includes(uid))
+      .map(c => this.toChat(c, uid));
+  }
+
+  async toggleArchiveChat(chatId: string, archive: boolean): Promise<ActionResult> {
+    return this.setPerUserFlag(chatId, 'archivedStatus', archive);
+  }
+
+  async toggleMuteChat(chatId: string, mute: boolean): Promise<ActionResult> {
+    return this.setPerUserFlag(chatId, 'mutedStatus', mute);
+  }
+
+  async togglePinChat(chatId: string, pin: boolean): Promise<ActionResult> {
+    return this.setPerUserFlag(chatId, 'pinnedStatus', pin);
+  }
+
+  async clearChatHistory(chatId: string, mode: DeleteMode, onProgress?: DeletionProgress): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+
+    if (mode === 'me') {
+      chat.clearedAt[uid] = new Date();
+      chat.hiddenMessageIds[uid] = [];
+      chat.unreadCounts[uid] = 0;
+      this.emit();
+      return ok();
+    }
+    // Only group admins can remove other people's messages (firestore.rules)
+    if (chat.type !== 'group') return fail('PERMISSION_DENIED', 'group_only');
+    if (!chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+
+    this.deleteMessages(chatId, onProgress);
+    chat.lastMessage = '';
+    this.emit();
+    return ok();
+  }
+
+  async deleteChat(chatId: string, onProgress?: DeletionProgress): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (chat.type === 'group' && !chat.admins?.includes(uid)) return fail('PERMISSION_DENIED', 'admin_only');
+
+    // Same rules as Firestore: a direct chat only leaves this user's list, and comes back with the next message.
+    // It's gone for good once the other side deletes it too.
+    if (chat.type === 'direct' && chat.participants.some(p => p !== uid && !chat.deletedBy[p])) {
+      const now = new Date();
+      chat.deletedBy[uid] = now;
+      chat.clearedAt[uid] = now;
+      chat.hiddenMessageIds[uid] = [];
+      chat.unreadCounts[uid] = 0;
+      chat.archivedStatus[uid] = false;
+      chat.mutedStatus[uid] = false;
+      chat.pinnedStatus[uid] = false;
+    } else {
+      this.deleteMessages(chatId, onProgress);
+      delete this.chats[chatId];
+    }
+    this.emit();
+    return ok();
+  }
+
+  // --- E2EE & Privacy ---
+
+  async generateE2EEKeys(): Promise<ActionResult> {
+    const user = this.me();
+    if (!user) return fail('NOT_AUTHENTICATED');
+
+    try {
+      // Messages never leave this process, so the key is only published for parity with Firestore
+      user.publicKey = await generateKeyPair(user.userId);
+      this.emit();
+      return ok();
+    } catch (err) {
+      console.error("Failed to generate E2EE keys", err);
+      return fail('ENCRYPTION');
+    }
+  }
+
+  async updatePrivacySettings(settings: User['privacySettings']): Promise<ActionResult> {
+    const user = this.me();
+    if (!user) return fail('NOT_AUTHENTICATED');
+
+    user.privacySettings = settings;
+    this.emit();
+    return ok();
+  }
+
+  async toggleBlockUser(userId: string, block: boolean): Promise<ActionResult> {
+    const user = this.me();
+    if (!user) return fail('NOT_AUTHENTICATED');
+
+    const blockedUsers = user.blockedUsers || [];
+    if (block && !blockedUsers.includes(userId)) {
+      user.blockedUsers = [...blockedUsers, userId];
+    } else if (!block && blockedUsers.includes(userId)) {
+      user.blockedUsers = blockedUsers.filter(id => id !== userId);
+    }
+    this.emit();
+    return ok();
+  }
+
+  async getBlockedUsers(): Promise<User[]> {
+    const user = this.me();
+    if (!user) return [];
+
+    return (user.blockedUsers || [])
+      .filter(id => this.users[id])
+      .map(id => ({ ...this.users[id] }));
+  }
+
+  // --- Messages ---
+
+  subscribeToMessages(chatId: string, callback: (page: MessagePage) => void) {
+    return this.subscribe(() => {
+      callback(this.messagePage(chatId, this.sortedMessages(chatId)));
+    });
+  }
+
+  async loadOlderMessages(chatId: string, before: Date): Promise<MessagePage> {
+    return this.messagePage(chatId, this.sortedMessages(chatId).filter(m => m.createdAt.getTime() < before.getTime()));
+  }
+
+  async searchMessagesInChat(chatId: string, searchQuery: string): Promise<Message[]> {
+    if (!searchQuery.trim()) return [];
+
+    const searchLower = searchQuery.toLowerCase();
+    return this.visibleMessages(chatId)
+      .filter(m => !m.deletedAt && m.type !== 'system' && m.text.toLowerCase().includes(searchLower))
+      .reverse();
+  }
+
+  async searchAllMessages(queryText: string): Promise<GlobalSearchResult[]> {
+    const uid = this.currentUserId;
+    if (!uid || !queryText.trim()) return [];
+
+    const results: GlobalSearchResult[] = [];
+    for (const chat of Object.values(this.chats)) {
+      if (!chat.participants.includes(uid)) continue;
+
+      const messages = await this.searchMessagesInChat(chat.chatId, queryText);
+      if (messages.length > 0) {
+        results.push({ chat: this.toChat(chat, uid), messages });
+      }
+    }
+    return results;
+  }
+
+  async sendMessage(chatId: string, text: string, receiverId: string, replyTo?: Message['replyTo'], expiresAt?: Date, messageId?: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+    if (messageId && this.findMessage(chatId, messageId)) return ok();
+
+    this.pushMessage(chat, {
+      messageId: messageId || newId('msg'),
+      text,
+      senderId: uid,
+      receiverId,
+      createdAt: new Date(),
+      status: MessageStatus.SENT,
+      replyTo,
+      reactions: {},
+      type: 'text',
+      expiresAt: expiresAt || expiryFor(chat.disappearingMinutes)
+    });
+    this.emit();
+    return ok();
+  }
+
+  async sendAttachment(chatId: string, file: File, receiverId: string, replyTo?: Message['replyTo'], options: UploadOptions = {}): Promise<ActionResult> {
+    const rejected = rejectAttachment(file);
+    if (rejected) return fail('ATTACHMENT_REJECTED', rejected);
+
+    return this.uploadAndSend(chatId, file, await describeAttachment(file), { type: 'attachment', receiverId, replyTo }, options);
+  }
+
+  async sendVoiceMessage(chatId: string, recording: VoiceRecording, receiverId: string, replyTo?: Message['replyTo'], options: UploadOptions = {}): Promise<ActionResult> {
+    const rejected = rejectVoiceRecording(recording.blob);
+    if (rejected) return fail('ATTACHMENT_REJECTED', rejected);
+
+    const mimeType = baseMimeType(recording.blob.type);
+    return this.uploadAndSend(chatId, recording.blob, {
+      kind: 'audio',
+      name: `voice-${Date.now()}.${mimeType.split('/')[1]}`,
+      mimeType,
+      size: recording.blob.size,
+      durationMs: recording.durationMs,
+      waveform: recording.waveform
+    }, { type: 'audio', receiverId, replyTo }, options);
+  }
+
+  async markVoicePlayed(chatId: string, messageId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const message = this.findMessage(chatId, messageId);
+    if (!message) return fail('NOT_FOUND', 'message');
+    if (message.senderId === uid || message.playedBy?.includes(uid)) return ok();
+
+    message.playedBy = [...(message.playedBy || []), uid];
+    this.emit();
+    return ok();
+  }
+
+  async forwardMessage(fromChatId: string, messageId: string, toChatIds: string[]): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const original = this.findMessage(fromChatId, messageId);
+    if (!original || original.deletedAt) return fail('NOT_FOUND', 'message');
+    if (original.attachment) return fail('ATTACHMENT_REJECTED', 'forward');
+
+    for (const toChatId of toChatIds) {
+      const chat = this.chats[toChatId];
+      if (!chat) continue;
+
+      const receiverId = chat.participants.find(p => p !== uid);
+      if (!receiverId) continue;
+
+      this.pushMessage(chat, {
+        messageId: newId('msg'),
+        text: original.text,
+        senderId: uid,
+        receiverId: chat.type === 'group' ? 'group' : receiverId,
+        createdAt: new Date(),
+        status: MessageStatus.SENT,
+        reactions: {},
+        type: 'text',
+        forwardedFrom: fromChatId,
+        expiresAt: expiryFor(chat.disappearingMinutes)
+      });
+    }
+
+    this.emit();
+    return ok();
+  }
+
+  async editMessage(chatId: string, messageId: string, newText: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const message = this.findMessage(chatId, messageId);
+    // Deleted messages stay deleted; an edit would bring the text back
+    if (!message || message.deletedAt) return fail('NOT_FOUND', 'message');
+    if (message.senderId !== uid) return fail('PERMISSION_DENIED', 'own_messages_only');
+    const { editWindowMinutes } = policyOf(this.chats[chatId]);
+    if (!isWithinWindow(editWindowMinutes, message.createdAt)) {
+      return fail('TIME_WINDOW_EXPIRED', 'edit', editWindowMinutes ?? undefined);
+    }
+
+    (this.revisions[messageId] ||= []).push({
+      revisionId: newId('rev'),
+      text: message.text,
+      authorId: message.senderId,
+      writtenAt: message.editedAt || message.createdAt
+    });
+    message.text = newText;
+    message.isEdited = true;
+    message.editedAt = new Date();
+    this.emit();
+    return ok();
+  }
+
+  async getMessageRevisions(_chatId: string, messageId: string): Promise<MessageRevision[]> {
+    if (!this.currentUserId) return [];
+    return (this.revisions[messageId] || []).map(r => ({ ...r }));
+  }
+
+  async deleteMessage(chatId: string, messageId: string, mode: DeleteMode): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    const message = this.findMessage(chatId, messageId);
+    if (!message) return fail('NOT_FOUND', 'message');
+
+    if (mode === 'me') {
+      const chat = this.chats[chatId];
+      chat.hiddenMessageIds[uid] = [...(chat.hiddenMessageIds[uid] || []), messageId];
+      this.emit();
+      return ok();
+    }
+    if (message.senderId !== uid) return fail('PERMISSION_DENIED', 'own_messages_only');
+    const { deleteWindowMinutes } = policyOf(this.chats[chatId]);
+    if (!isWithinWindow(deleteWindowMinutes, message.createdAt)) {
+      return fail('TIME_WINDOW_EXPIRED', 'delete', deleteWindowMinutes ?? undefined);
+    }
+
+    message.deletedAt = new Date();
+    message.text = 'Message deleted';
+    delete message.attachment;
+    delete this.revisions[messageId];
+    this.emit();
+    return ok();
+  }
+
+  async addReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    const message = this.findMessage(chatId, messageId);
+    if (!message) return fail('NOT_FOUND', 'message');
+
+    const reactions = message.reactions || {};
+    const usersReacted = reactions[emoji] || [];
+    // Same limit as firestore.rules
+    if (!reactions[emoji] && Object.keys(reactions).length >= MAX_REACTION_EMOJIS) return fail('PERMISSION_DENIED');
+    if (!usersReacted.includes(uid)) {
+      message.reactions = { ...reactions, [emoji]: [...usersReacted, uid] };
+      this.emit();
+    }
+    return ok();
+  }
+
+  async removeReaction(chatId: string, messageId: string, emoji: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    const message = this.findMessage(chatId, messageId);
+    if (!message) return fail('NOT_FOUND', 'message');
+
+    const reactions = message.reactions || {};
+    const usersReacted = reactions[emoji] || [];
+    if (usersReacted.includes(uid)) {
+      message.reactions = { ...reactions, [emoji]: usersReacted.filter(id => id !== uid) };
+      this.emit();
+    }
+    return ok();
+  }
+
+  async markMessagesAsRead(chatId: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+
+    const now = new Date();
+    chat.unreadCounts[uid] = 0;
+    chat.deliveredUpTo[uid] = now;
+    chat.readUpTo[uid] = now;
+    this.emit();
+    return ok();
+  }
+
+  async pinMessage(chatId: string, messageId: string): Promise<ActionResult> {
+    return this.setPinned(chatId, messageId, true);
+  }
+
+  async unpinMessage(chatId: string, messageId: string): Promise<ActionResult> {
+    return this.setPinned(chatId, messageId, false);
+  }
+
+  // --- Reports ---
+
+  async reportUser(userId: string, reason: string, description: string): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+
+    this.reports.push({
+      reportedUserId: userId,
+      reporterId: uid,
+      reason,
+      description,
+      createdAt: new Date(),
+      status: 'pending'
+    });
+    return ok();
+  }
+
+  // --- Helpers ---
+
+  private me(): User | null {
+    return this.currentUserId ? this.users[this.currentUserId] : null;
+  }
+
+  private setSession(userId: string | null) {
+    this.currentUserId = userId;
+    if (userId) {
+      localStorage.setItem(SESSION_KEY, userId);
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    this.trackPresence();
+    const user = this.getCurrentUser();
+    this.authListeners.forEach(listener => listener(user));
+  }
+
+  private trackPresence() {
+    this.presence?.stop();
+    const uid = this.currentUserId;
+    this.presence = uid
+      ? new PresenceTracker(uid, async (isOnline) => this.updateUserStatus(uid, isOnline))
+      : null;
+  }
+
+  private updateUserStatus(userId: string, isOnline: boolean) {
+    const user = this.users[userId];
+    if (!user) return;
+
+    user.isOnline = isOnline;
+    user.lastSeen = new Date();
+    this.emit();
+  }
+
+  // Register a view that is recomputed after every mutation (the in-memory equivalent of onSnapshot)
+  private subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    listener();
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private sortedMessages(chatId: string): Message[] {
+    this.purgeExpired(chatId);
+    return (this.messages[chatId] || [])
+      .map(m => ({ ...m }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Stand-in for the Firestore TTL policy: expired messages are gone for good
+  private purgeExpired(chatId: string) {
+    const now = Date.now();
+    const messages = this.messages[chatId];
+    if (messages?.some(m => m.expiresAt && m.expiresAt.getTime() <= now)) {
+      this.messages[chatId] = messages.filter(m => !m.expiresAt || m.expiresAt.getTime() > now);
+      messages.filter(m => m.expiresAt && m.expiresAt.getTime() <= now).forEach(m => { delete this.revisions[m.messageId]; });
+    }
+  }
+
+  // The newest page of `messages` (oldest first), paged before hidden messages are taken out like in Firestore
+  private messagePage(chatId: string, messages: Message[]): MessagePage {
+    const page = messages.slice(-MESSAGE_PAGE_SIZE);
+    const chat = this.chats[chatId];
+    const uid = this.currentUserId;
+    return {
+      messages: chat && uid ? withoutHidden(page, this.hiddenFor(chat, uid)) : page,
+      hasOlder: messages.length > page.length,
+      cursor: page[0]?.createdAt || null
+    };
+  }
+
+  // Sorted history without what the current user deleted for themselves
+  private visibleMessages(chatId: string): Message[] {
+    const chat = this.chats[chatId];
+    const uid = this.currentUserId;
+    const messages = this.sortedMessages(chatId);
+    return chat && uid ? withoutHidden(messages, this.hiddenFor(chat, uid)) : messages;
+  }
+
+  private hiddenFor(chat: StoredChat, uid: string): HiddenMessages {
+    return { hiddenMessageIds: chat.hiddenMessageIds[uid] || [], clearedAt: chat.clearedAt[uid] || null };
+  }
+
+  private findMessage(chatId: string, messageId: string): Message | undefined {
+    return this.messages[chatId]?.find(m => m.messageId === messageId);
+  }
+
+  private newStoredChat(chatId: string, type: StoredChat['type'], participants: string[], fields: Partial<StoredChat>): StoredChat {
+    const now = new Date();
+    return {
+      chatId,
+      type,
+      participants,
+      lastMessage: '',
+      lastMessageAt: now,
+      lastMessageSender: '',
+      createdAt: now,
+      unreadCounts: Object.fromEntries(participants.map(uid => [uid, 0])),
+      archivedStatus: {},
+      mutedStatus: {},
+      pinnedStatus: {},
+      disappearingMinutes: null,
+      typingUsers: {},
+      deliveredUpTo: {},
+      readUpTo: {},
+      hiddenMessageIds: {},
+      clearedAt: {},
+      deletedBy: {},
+      ...fields
+    };
+  }
+
+  // The listener receiving a chat is this client receiving its latest message.
+  // Recorded without emitting; the next change carries it to the sender's view.
+  private acknowledgeDelivery(chat: StoredChat, uid: string) {
+    if (!chat.lastMessageSender || chat.lastMessageSender === uid) return;
+    if ((chat.deliveredUpTo[uid]?.getTime() || 0) >= chat.lastMessageAt.getTime()) return;
+    chat.deliveredUpTo[uid] = new Date();
+  }
+
+  // Stand-in for a Storage upload followed by the message. Nothing leaves the page: the file is kept as an object
+  // URL. Progress comes in a few steps so the UI behaves like it does with Storage.
+  private async uploadAndSend(
+    chatId: string,
+    file: Blob,
+    details: Omit<Attachment, 'url' | 'storagePath'>,
+    message: { type: 'attachment' | 'audio'; receiverId: string; replyTo?: Message['replyTo'] },
+    options: UploadOptions
+  ): Promise<ActionResult> {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    if (!this.chats[chatId]) return fail('NOT_FOUND', 'chat');
+
+    const messageId = newId('msg');
+    for (let step = 1; step <= UPLOAD_STEPS; step++) {
+      if (options.signal?.aborted) return fail('CANCELLED');
+      await new Promise(resolve => setTimeout(resolve, UPLOAD_STEP_MS));
+      options.onProgress?.(step / UPLOAD_STEPS);
+    }
+    if (options.signal?.aborted) return fail('CANCELLED');
+
+    // The chat may have been deleted meanwhile
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+
+    this.pushMessage(chat, {
+      messageId,
+      text: '',
+      senderId: uid,
+      receiverId: message.receiverId,
+      createdAt: new Date(),
+      status: MessageStatus.SENT,
+      replyTo: message.replyTo,
+      reactions: {},
+      type: message.type,
+      attachment: {
+        ...details,
+        url: URL.createObjectURL(file),
+        storagePath: `chats/${chatId}/attachments/${messageId}/${storageFileName(details.name)}`
+      },
+      expiresAt: expiryFor(chat.disappearingMinutes)
+    });
+    this.emit();
+    return ok();
+  }
+
+  // Append a message and update the chat metadata and everyone else's unread counter
+  // (what the onMessageCreated function does for Firestore)
+  private pushMessage(chat: StoredChat, message: Message, countAsUnread = true) {
+    (this.messages[chat.chatId] ||= []).push(message);
+
+    chat.lastMessage = messageSummary(message);
+    chat.lastMessageAt = message.createdAt;
+    chat.lastMessageSender = message.senderId;
+    chat.lastMessageId = message.messageId;
+    chat.deletedBy = {};
+    if (!countAsUnread) return;
+    chat.participants
+      .filter(uid => uid !== message.senderId)
+      .forEach(uid => { chat.unreadCounts[uid] = (chat.unreadCounts[uid] || 0) + 1; });
+  }
+
+  private deleteMessages(chatId: string, onProgress?: DeletionProgress) {
+    const count = this.messages[chatId]?.length || 0;
+    this.messages[chatId]?.forEach(m => { delete this.revisions[m.messageId]; });
+    delete this.messages[chatId];
+    onProgress?.(count, count);
+  }
+
+  private setPerUserFlag(chatId: string, field: 'archivedStatus' | 'mutedStatus' | 'pinnedStatus', value: boolean): ActionResult {
+    const uid = this.currentUserId;
+    if (!uid) return fail('NOT_AUTHENTICATED');
+    const chat = this.chats[chatId];
+    if (!chat) return fail('NOT_FOUND', 'chat');
+
+    chat[field][uid] = value;
+    this.emit();
+    return ok();
+  }
+
+  private setPinned(chatId: string, messageId: string, isPinned: boolean): ActionResult {
+    if (!this.currentUserId) return fail('NOT_AUTHENTICATED');
+    const message = this.findMessage(chatId, messageId);
+    if (!message) return fail('NOT_FOUND', 'message');
+
+    message.isPinned = isPinned;
+    this.emit();
+    return ok();
+  }
+
+  private toChat(chat: StoredChat, uid: string): Chat {
+    const otherUserId = chat.participants.find(p => p !== uid);
+    const members = chat.participants
+      .filter(p => this.users[p])
+      .map(p => ({ ...this.users[p] }));
+
+    return {
+      chatId: chat.chatId,
+      type: chat.type,
+      participants: [...chat.participants],
+      lastMessage: visiblePreview(chat, this.hiddenFor(chat, uid)),
+      lastMessageAt: chat.lastMessageAt,
+      lastMessageSender: chat.lastMessageSender,
+      lastMessageId: chat.lastMessageId,
+      createdAt: chat.createdAt,
+      name: chat.name,
+      description: chat.description,
+      admins: chat.admins ? [...chat.admins] : undefined,
+      disappearingMinutes: chat.disappearingMinutes,
+      editWindowMinutes: chat.editWindowMinutes,
+      deleteWindowMinutes: chat.deleteWindowMinutes,
+      otherUser: chat.type === 'direct' && otherUserId && this.users[otherUserId] ? { ...this.users[otherUserId] } : undefined,
+      groupMembers: chat.type === 'group' ? members : [],
+      unreadCount: chat.unreadCounts[uid] || 0,
+      isArchived: chat.archivedStatus[uid] || false,
+      isMuted: chat.mutedStatus[uid] || false,
+      isPinned: chat.pinnedStatus[uid] || false,
+      typingUsers: { ...chat.typingUsers },
+      deliveredUpTo: { ...chat.deliveredUpTo },
+      readUpTo: { ...chat.readUpTo },
+      deletedBy: { ...chat.deletedBy }
+    };
+  }
+}
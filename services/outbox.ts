@@ -0,0 +1,272 @@
+import { Message, MessageStatus } from '../types';
+import { ChatBackend, Unsubscribe } from './chatBackend';
+import { ChatError, isTransient } from './chatErrors';
+import { chatService } from './chatService';
+
+const DB_NAME = 'czat_outbox';
+const STORE = 'messages';
+
+// Retries back off 2s, 4s, 8s... up to a minute; after MAX_ATTEMPTS the message is marked failed.
+// Errors that won't go away by retrying (no permission, chat gone, encryption) fail it right away.
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+const MAX_ATTEMPTS = 6;
+
+// A send that hasn't settled by then (e.g. a write queued by a dead connection) counts as an error
+const SEND_TIMEOUT_MS = 15000;
+
+export interface OutboxEntry {
+  messageId: string;
+  chatId: string;
+  senderId: string;
+  receiverId: string;
+  text: string;
+  replyTo?: Message['replyTo'];
+  expiresAt?: Date;
+  createdAt: Date;
+  attempts: number;
+  nextAttemptAt: number;
+  failed: boolean;
+}
+
+export type OutboxMessage = Pick<OutboxEntry, 'chatId' | 'receiverId' | 'text' | 'replyTo' | 'expiresAt'>;
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'messageId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Send timed out')), ms);
+  promise.then(
+    value => { clearTimeout(timer); resolve(value); },
+    err => { clearTimeout(timer); reject(err); }
+  );
+});
+
+const newMessageId = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+// Messages waiting to reach the backend. They are shown right away with SENDING status,
+// retried with backoff while offline or on errors, and persisted so they survive a reload.
+export class Outbox {
+  private backend: ChatBackend;
+  private entries = new Map<string, OutboxEntry>();
+  private listeners = new Set<() => void>();
+  private loaded: Promise<void>;
+  private flushing = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(backend: ChatBackend) {
+    this.backend = backend;
+
+    this.loaded = withStore<OutboxEntry[]>('readonly', store => store.getAll())
+      .then(stored => stored.forEach(entry => {
+        // A reload is a fresh start for anything still pending
+        this.entries.set(entry.messageId, entry.failed ? entry : { ...entry, nextAttemptAt: 0 });
+      }))
+      .catch(err => console.error("Outbox storage unavailable", err))
+      .finally(() => {
+        this.notify();
+        this.flush();
+      });
+
+    window.addEventListener('online', () => {
+      this.entries.forEach(entry => { if (!entry.failed) entry.nextAttemptAt = 0; });
+      this.flush();
+    });
+  }
+
+  // Queue a message and try to send it immediately
+  async send(message: OutboxMessage): Promise<void> {
+    const senderId = this.backend.getCurrentUser()?.userId;
+    if (!senderId) return;
+
+    const entry: OutboxEntry = {
+      ...message,
+      messageId: newMessageId(),
+      senderId,
+      createdAt: new Date(),
+      attempts: 0,
+      nextAttemptAt: 0,
+      failed: false
+    };
+
+    this.entries.set(entry.messageId, entry);
+    this.notify();
+    await this.persist(entry);
+    this.flush();
+  }
+
+  // Unsent messages of the signed-in user in this chat, oldest first
+  subscribe(chatId: string, callback: (messages: Message[]) => void): Unsubscribe {
+    const listener = () => callback(this.pendingFor(chatId));
+    this.listeners.add(listener);
+    this.loaded.then(() => {
+      listener();
+      // The session may have been restored after the queue was first loaded
+      this.flush();
+    });
+    return () => { this.listeners.delete(listener); };
+  }
+
+  async retry(messageId: string): Promise<void> {
+    const entry = this.entries.get(messageId);
+    if (!entry) return;
+
+    Object.assign(entry, { failed: false, attempts: 0, nextAttemptAt: 0 });
+    this.notify();
+    await this.persist(entry);
+    this.flush();
+  }
+
+  async discard(messageId: string): Promise<void> {
+    if (!this.entries.delete(messageId)) return;
+    this.notify();
+    await this.remove(messageId);
+  }
+
+  private pendingFor(chatId: string): Message[] {
+    const uid = this.backend.getCurrentUser()?.userId;
+    return [...this.entries.values()]
+      .filter(e => e.chatId === chatId && e.senderId === uid)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(e => ({
+        messageId: e.messageId,
+        text: e.text,
+        senderId: e.senderId,
+        receiverId: e.receiverId,
+        createdAt: e.createdAt,
+        status: e.failed ? MessageStatus.FAILED : MessageStatus.SENDING,
+        replyTo: e.replyTo,
+        expiresAt: e.expiresAt,
+        reactions: {},
+        type: 'text'
+      }));
+  }
+
+  // Send everything that is due, one message at a time and in order within each chat
+  private async flush() {
+    if (this.flushing) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // The 'online' event restarts the queue
+    if (!navigator.onLine) return;
+
+    this.flushing = true;
+    try {
+      const uid = this.backend.getCurrentUser()?.userId;
+      const blockedChats = new Set<string>();
+      const queue = [...this.entries.values()]
+        .filter(e => e.senderId === uid && !e.failed)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      for (const entry of queue) {
+        // A self-destructing message that expired while queued is never sent
+        if (entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now()) {
+          this.entries.delete(entry.messageId);
+          this.notify();
+          await this.remove(entry.messageId);
+          continue;
+        }
+        if (blockedChats.has(entry.chatId)) continue;
+        if (entry.nextAttemptAt > Date.now()) {
+          blockedChats.add(entry.chatId);
+          continue;
+        }
+
+        let error: ChatError | null;
+        try {
+          const result = await withTimeout(
+            this.backend.sendMessage(entry.chatId, entry.text, entry.receiverId, entry.replyTo, entry.expiresAt, entry.messageId),
+            SEND_TIMEOUT_MS
+          );
+          error = result.success ? null : result.error;
+        } catch (err) {
+          console.error("Queued message timed out", err);
+          error = { code: 'NETWORK' };
+        }
+
+        if (!error) {
+          this.entries.delete(entry.messageId);
+          this.notify();
+          await this.remove(entry.messageId);
+        } else {
+          console.error("Failed to send queued message", error);
+          entry.attempts += 1;
+          entry.failed = !isTransient(error) || entry.attempts >= MAX_ATTEMPTS;
+          entry.nextAttemptAt = Date.now() + Math.min(BASE_DELAY_MS * 2 ** (entry.attempts - 1), MAX_DELAY_MS);
+          if (!entry.failed) blockedChats.add(entry.chatId);
+          this.notify();
+          await this.persist(entry);
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    this.scheduleNext();
+  }
+
+  // Wake up for the earliest retry among the messages at the head of each chat's queue
+  private scheduleNext() {
+    const uid = this.backend.getCurrentUser()?.userId;
+    const heads = new Map<string, OutboxEntry>();
+    [...this.entries.values()]
+      .filter(e => e.senderId === uid && !e.failed)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach(e => { if (!heads.has(e.chatId)) heads.set(e.chatId, e); });
+    if (heads.size === 0) return;
+
+    const next = Math.min(...[...heads.values()].map(e => e.nextAttemptAt));
+    this.timer = setTimeout(() => this.flush(), Math.max(0, next - Date.now()));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async persist(entry: OutboxEntry) {
+    try {
+      await withStore('readwrite', store => store.put(entry));
+    } catch (err) {
+      console.error("Failed to persist outbox entry", err);
+    }
+  }
+
+  private async remove(messageId: string) {
+    try {
+      await withStore('readwrite', store => store.delete(messageId));
+    } catch (err) {
+      console.error("Failed to remove outbox entry", err);
+    }
+  }
+}
+
+export const outbox = new Outbox(chatService);
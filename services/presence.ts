@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { User } from '../types';
+import { serverNow } from './serverClock';
+
+// A visible tab refreshes lastSeen this often; readers treat a user as offline once
+// PRESENCE_TIMEOUT_MS passes without a heartbeat (closed tab, lost network, crash).
+export const HEARTBEAT_INTERVAL_MS = 30000;
+export const PRESENCE_TIMEOUT_MS = 75000;
+
+// Switching between two tabs of the app hides one before the other shows up
+const OFFLINE_GRACE_MS = 2000;
+
+// Other tabs not heard from in this long are considered gone
+const TAB_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 2;
+
+type TabMessage =
+  | { type: 'state'; tabId: string; visible: boolean }
+  | { type: 'bye'; tabId: string };
+
+// Reader side: the stored flag only counts while heartbeats keep coming. lastSeen is a server timestamp.
+export const isUserOnline = (user: User | undefined, now = serverNow()) =>
+  !!user?.isOnline && now - new Date(user.lastSeen).getTime() < PRESENCE_TIMEOUT_MS;
+
+// Re-render periodically so presence derived from lastSeen goes stale on screen too
+export const usePresenceClock = () => {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), HEARTBEAT_INTERVAL_MS / 2);
+    return () => clearInterval(timer);
+  }, []);
+};
+
+// Writer side for the signed-in user. The user is online while any of their tabs is visible;
+// tabs coordinate over a BroadcastChannel so that only one of them writes heartbeats and
+// closing one tab doesn't mark the user offline while another is still open.
+export class PresenceTracker {
+  private publish: (isOnline: boolean) => Promise<void>;
+  private tabId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  private tabs = new Map<string, { visible: boolean; seenAt: number }>();
+  private channel: BroadcastChannel | null;
+
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private ping: ReturnType<typeof setInterval>;
+  private offlineTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+
+  constructor(userId: string, publish: (isOnline: boolean) => Promise<void>) {
+    this.publish = publish;
+    this.channel = typeof BroadcastChannel === 'function' ? new BroadcastChannel(`czat_presence_${userId}`) : null;
+
+    if (this.channel) {
+      this.channel.onmessage = (e: MessageEvent<TabMessage>) => this.onTabMessage(e.data);
+    }
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('online', this.onOnline);
+    window.addEventListener('beforeunload', this.onUnload);
+
+    // Every tab reports its state so the others can tell which tabs are still alive. A tab that crashed never says
+    // 'bye', so the election is rerun here too once it times out; otherwise no other tab would take over.
+    this.ping = setInterval(() => {
+      this.pruneTabs();
+      this.announce();
+      this.update();
+    }, HEARTBEAT_INTERVAL_MS);
+    this.announce();
+    this.update();
+  }
+
+  // Stop tracking (logout). The caller writes the final offline status itself.
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    this.stopHeartbeat();
+    clearInterval(this.ping);
+    if (this.offlineTimer) clearTimeout(this.offlineTimer);
+    this.post({ type: 'bye', tabId: this.tabId });
+    this.channel?.close();
+
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('online', this.onOnline);
+    window.removeEventListener('beforeunload', this.onUnload);
+  }
+
+  private get visible() {
+    return document.visibilityState === 'visible';
+  }
+
+  private visibleTabIds(): string[] {
+    const now = Date.now();
+    const others = [...this.tabs.entries()]
+      .filter(([, tab]) => tab.visible && now - tab.seenAt < TAB_TIMEOUT_MS)
+      .map(([id]) => id);
+    return this.visible ? [this.tabId, ...others] : others;
+  }
+
+  private pruneTabs() {
+    const now = Date.now();
+    this.tabs.forEach((tab, id) => {
+      if (now - tab.seenAt >= TAB_TIMEOUT_MS) this.tabs.delete(id);
+    });
+  }
+
+  // The visible tab with the smallest ID writes heartbeats; when no tab is visible the user goes offline
+  private update() {
+    if (this.stopped) return;
+
+    const visibleTabs = this.visibleTabIds();
+    const isLeader = this.visible && [...visibleTabs].sort()[0] === this.tabId;
+
+    if (visibleTabs.length > 0 && this.offlineTimer) {
+      clearTimeout(this.offlineTimer);
+      this.offlineTimer = null;
+    }
+
+    if (isLeader && !this.heartbeat) {
+      this.beat();
+      this.heartbeat = setInterval(() => this.beat(), HEARTBEAT_INTERVAL_MS);
+    } else if (!isLeader) {
+      this.stopHeartbeat();
+    }
+  }
+
+  private beat() {
+    this.publish(true).catch(err => console.warn("Presence heartbeat failed", err));
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private onTabMessage(message: TabMessage) {
+    if (message.type === 'bye') {
+      this.tabs.delete(message.tabId);
+    } else {
+      const isNew = !this.tabs.has(message.tabId);
+      this.tabs.set(message.tabId, { visible: message.visible, seenAt: Date.now() });
+      // Let a newly opened tab learn about this one right away
+      if (isNew) this.announce();
+    }
+    this.update();
+  }
+
+  private onVisibilityChange = () => {
+    this.announce();
+    this.update();
+
+    // This tab was the last visible one: go offline unless another tab shows up shortly
+    if (!this.visible && this.visibleTabIds().length === 0 && !this.offlineTimer) {
+      this.offlineTimer = setTimeout(() => {
+        this.offlineTimer = null;
+        if (!this.stopped && this.visibleTabIds().length === 0) {
+          this.publish(false).catch(err => console.warn("Failed to publish offline status", err));
+        }
+      }, OFFLINE_GRACE_MS);
+    }
+  };
+
+  // Back from a network drop: don't wait for the next interval
+  private onOnline = () => {
+    if (this.heartbeat) this.beat();
+  };
+
+  // Best effort: the write may not leave the page, in which case readers time the user out
+  private onUnload = () => {
+    this.post({ type: 'bye', tabId: this.tabId });
+    const othersVisible = this.visibleTabIds().some(id => id !== this.tabId);
+    if (!othersVisible) this.publish(false).catch(() => { });
+  };
+
+  private announce() {
+    this.post({ type: 'state', tabId: this.tabId, visible: this.visible });
+  }
+
+  private post(message: TabMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch {
+      // Channel already closed
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// Device clocks can be minutes off. Heartbeats and typing timestamps are written by the server, so readers
+// compare them with the server's "now": the device clock plus an offset measured once per session.
+let offsetMs = 0;
+
+export const serverNow = () => Date.now() + offsetMs;
+
+// From a serverTimestamp() write: the server stamped it somewhere between sending and the acknowledgement,
+// so the midpoint stands in for the moment it did
+export const recordServerTime = (serverTime: Date, sentAt: number, acknowledgedAt: number) => {
+  offsetMs = serverTime.getTime() - (sentAt + acknowledgedAt) / 2;
+};
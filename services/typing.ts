@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Chat } from '../types';
+import { chatService } from './chatService';
+import { serverNow } from './serverClock';
+
+// Readers drop a typing entry this long after it was written, so a dead tab can't leave one stuck
+export const TYPING_TIMEOUT_MS = 6000;
+// While the user keeps typing, the timestamp is refreshed at most this often
+const TYPING_THROTTLE_MS = 3000;
+// A pause this long counts as having stopped typing
+const TYPING_IDLE_MS = 4000;
+
+// Members other than the current user whose typing timestamp (written by the server) is still fresh
+export const getTypingUserIds = (chat: Chat | undefined, currentUserId: string | undefined, now = serverNow()) =>
+  Object.entries(chat?.typingUsers || {})
+    .filter(([userId, at]) => userId !== currentUserId && now - new Date(at).getTime() < TYPING_TIMEOUT_MS)
+    .map(([userId]) => userId);
+
+// "Typing…" in direct chats; "Anna is typing…", "Anna and Piotr are typing…",
+// "Anna, Piotr and 2 others are typing…" in groups
+export const describeTyping = (chat: Chat, userIds: string[]): string | null => {
+  if (userIds.length === 0) return null;
+  if (chat.type === 'direct') return 'Typing…';
+
+  const names = userIds.map(id => chat.groupMembers?.find(m => m.userId === id)?.displayName || 'Someone');
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  if (names.length === 3) return `${names[0]}, ${names[1]} and ${names[2]} are typing…`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing…`;
+};
+
+// Re-render when the first still-fresh typing entry among `chats` expires
+export const useTypingClock = (chats: (Chat | undefined)[], currentUserId: string | undefined) => {
+  const [, setTick] = useState(0);
+
+  const nextExpiry = Math.min(...chats.flatMap(chat =>
+    getTypingUserIds(chat, currentUserId).map(id => new Date(chat!.typingUsers![id]).getTime() + TYPING_TIMEOUT_MS)
+  ));
+
+  useEffect(() => {
+    if (!isFinite(nextExpiry)) return;
+    const timer = setTimeout(() => setTick(t => t + 1), Math.max(0, nextExpiry - serverNow()));
+    return () => clearTimeout(timer);
+  }, [nextExpiry]);
+};
+
+// Typing members of a chat, re-evaluated when the oldest entry expires
+export const useTypingUserIds = (chat: Chat | undefined, currentUserId: string | undefined) => {
+  useTypingClock([chat], currentUserId);
+  return getTypingUserIds(chat, currentUserId);
+};
+
+// Writer side: call onKeystroke on every input change and stop when the message is sent or the input loses focus
+export const useTypingNotifier = (chatId: string | undefined) => {
+  const lastWriteRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stop = useCallback(() => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (!chatId || lastWriteRef.current === 0) return;
+
+    lastWriteRef.current = 0;
+    chatService.setTypingStatus(chatId, false).then(res => {
+      if (!res.success) console.warn("Failed to clear typing status", res.error);
+    });
+  }, [chatId]);
+
+  const onKeystroke = useCallback(() => {
+    if (!chatId) return;
+
+    if (Date.now() - lastWriteRef.current >= TYPING_THROTTLE_MS) {
+      lastWriteRef.current = Date.now();
+      chatService.setTypingStatus(chatId, true).then(res => {
+        if (!res.success) console.warn("Failed to update typing status", res.error);
+      });
+    }
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stop, TYPING_IDLE_MS);
+  }, [chatId, stop]);
+
+  // Leaving the chat clears the indicator
+  useEffect(() => stop, [stop]);
+
+  return { onKeystroke, stop };
+};
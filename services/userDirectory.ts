@@ -0,0 +1,150 @@
+import {
+  collection,
+  query,
+  where,
+  documentId,
+  getDocs,
+  onSnapshot,
+  Firestore
+} from 'firebase/firestore';
+import { User } from '../types';
+import { Unsubscribe } from './chatBackend';
+import { readDocs, userConverter } from './firestoreConverters';
+
+// Firestore caps 'in' filters at 30 values
+const IN_QUERY_LIMIT = 30;
+
+interface Subscriber {
+  ids: Set<string>;
+  callback: () => void;
+}
+
+interface Watcher {
+  ids: string[];
+  unsubscribe: Unsubscribe;
+}
+
+// Split IDs into groups small enough for a `documentId() in [...]` filter
+export const chunkForInQuery = (ids: string[]) => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+    chunks.push(ids.slice(i, i + IN_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+// Shared cache of user profiles.
+// Lookups are batched into `documentId() in [...]` queries; live listeners are shared and ref-counted per user.
+export class UserDirectory {
+  private db: Firestore;
+
+  private cache = new Map<string, User>();
+  private missing = new Set<string>();
+  private inFlight = new Map<string, Promise<void>>();
+
+  private refCounts = new Map<string, number>();
+  private watchers: Watcher[] = [];
+  private subscribers = new Set<Subscriber>();
+
+  constructor(db: Firestore) {
+    this.db = db;
+  }
+
+  // Cached profile, if it has been loaded
+  get(userId: string): User | undefined {
+    return this.cache.get(userId);
+  }
+
+  // Resolve profiles, fetching only what isn't cached or already being fetched. Unknown IDs are skipped.
+  async getUsers(userIds: string[]): Promise<User[]> {
+    const ids = [...new Set(userIds)];
+    const toFetch = ids.filter(id => !this.cache.has(id) && !this.missing.has(id) && !this.inFlight.has(id));
+
+    for (const batch of chunkForInQuery(toFetch)) {
+      const request = this.fetchBatch(batch);
+      batch.forEach(id => this.inFlight.set(id, request));
+    }
+
+    await Promise.all(ids.map(id => this.inFlight.get(id)));
+
+    return ids
+      .map(id => this.cache.get(id))
+      .filter((u): u is User => u !== undefined);
+  }
+
+  // Keep the given profiles live; the callback fires whenever one of them changes
+  subscribe(userIds: string[], callback: () => void): Unsubscribe {
+    const subscriber: Subscriber = { ids: new Set(userIds), callback };
+    this.subscribers.add(subscriber);
+
+    const unwatched = [...subscriber.ids].filter(id => this.retain(id));
+    chunkForInQuery(unwatched).forEach(batch => this.watch(batch));
+
+    return () => {
+      if (!this.subscribers.delete(subscriber)) return;
+      subscriber.ids.forEach(id => this.release(id));
+    };
+  }
+
+  private async fetchBatch(ids: string[]): Promise<void> {
+    try {
+      const snapshot = await getDocs(this.usersIn(ids));
+      readDocs(snapshot.docs).forEach(user => {
+        this.cache.set(user.userId, user);
+        this.missing.delete(user.userId);
+      });
+      ids.filter(id => !this.cache.has(id)).forEach(id => this.missing.add(id));
+    } finally {
+      ids.forEach(id => this.inFlight.delete(id));
+    }
+  }
+
+  // Returns true when the user isn't covered by any live listener yet
+  private retain(userId: string): boolean {
+    const count = this.refCounts.get(userId) || 0;
+    this.refCounts.set(userId, count + 1);
+    return count === 0 && !this.watchers.some(w => w.ids.includes(userId));
+  }
+
+  private release(userId: string) {
+    const count = (this.refCounts.get(userId) || 1) - 1;
+    if (count > 0) {
+      this.refCounts.set(userId, count);
+      return;
+    }
+    this.refCounts.delete(userId);
+
+    // Drop a listener once nobody needs any of the users it covers
+    this.watchers = this.watchers.filter(w => {
+      if (w.ids.some(id => this.refCounts.has(id))) return true;
+      w.unsubscribe();
+      return false;
+    });
+  }
+
+  private watch(ids: string[]) {
+    const unsubscribe = onSnapshot(this.usersIn(ids), (snapshot) => {
+      const changed = new Set<string>();
+      snapshot.docChanges().forEach(change => {
+        changed.add(change.doc.id);
+        const [user] = change.type === 'removed' ? [] : readDocs([change.doc]);
+        if (user) {
+          this.cache.set(user.userId, user);
+          this.missing.delete(user.userId);
+        } else {
+          this.cache.delete(change.doc.id);
+        }
+      });
+
+      this.subscribers.forEach(s => {
+        if ([...changed].some(id => s.ids.has(id))) s.callback();
+      });
+    });
+
+    this.watchers.push({ ids, unsubscribe });
+  }
+
+  private usersIn(ids: string[]) {
+    return query(collection(this.db, 'users').withConverter(userConverter), where(documentId(), 'in', ids));
+  }
+}
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ViteDevServer, createServer } from 'vite';
+import puppeteer, { Browser, Page } from 'puppeteer-core';
+import { MIN_RECORDING_MS } from '../../utils/voice';
+import type { RecorderHarness } from './recorderHarness';
+
+// Records with the real MediaRecorder in headless Chrome, fed by Chrome's fake microphone (a beeping tone).
+// Needs a local Chrome or Chromium: CHROME_PATH=/usr/bin/chromium npm test
+const chromePath = process.env.CHROME_PATH;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe.skipIf(!chromePath)('useVoiceRecorder in Chrome', () => {
+  let server: ViteDevServer;
+  let browser: Browser;
+  let page: Page;
+
+  const recorder = <T>(read: (recorder: RecorderHarness) => T) =>
+    page.evaluate(`(${read.toString()})(window.recorder)`) as Promise<T>;
+
+  beforeAll(async () => {
+    server = await createServer({ logLevel: 'error', server: { host: '127.0.0.1', port: 0 } });
+    await server.listen();
+    const { port } = server.httpServer!.address() as { port: number };
+
+    browser = await puppeteer.launch({
+      executablePath: chromePath,
+      headless: true,
+      args: ['--use-fake-ui-for-media-stream', '--use-fake-device-for-media-stream', '--autoplay-policy=no-user-gesture-required']
+    });
+    page = await browser.newPage();
+    await page.goto(`http://127.0.0.1:${port}/tests/browser/recorder.html`);
+    await page.waitForFunction('!!window.recorder');
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  const record = async (ms: number, end: 'stop' | 'cancel') => {
+    await page.evaluate('window.recorder.start()');
+    await page.waitForFunction('window.recorder.isRecording');
+    await wait(ms);
+    await page.evaluate(`window.recorder.${end}()`);
+    await page.waitForFunction('!window.recorder.isRecording');
+  };
+
+  it('records from the microphone and analyzes the result', async () => {
+    await record(1500, 'stop');
+    await page.waitForFunction('window.recorder.recordings.length === 1', { timeout: 10000 });
+
+    const [recording] = await recorder(r => r.recordings);
+    expect(recording.size).toBeGreaterThan(0);
+    expect(recording.mimeType).toMatch(/^audio\//);
+    expect(recording.durationMs).toBeGreaterThan(1000);
+    expect(recording.durationMs).toBeLessThan(5000);
+    expect(recording.waveform.length).toBeGreaterThan(0);
+    expect(Math.max(...recording.waveform)).toBeGreaterThan(0);
+    expect(await recorder(r => r.errors)).toEqual([]);
+  });
+
+  it('drops cancelled recordings and accidental taps', async () => {
+    const before = (await recorder(r => r.recordings)).length;
+
+    await record(1000, 'cancel');
+    await record(MIN_RECORDING_MS / 5, 'stop');
+    await wait(1000);
+
+    expect(await recorder(r => r.recordings)).toHaveLength(before);
+    expect(await recorder(r => r.errors)).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import ReactDOM from 'react-dom/client';
+import { useVoiceRecorder } from '../../hooks/useVoiceRecorder';
+import { ChatError } from '../../services/chatErrors';
+
+// Page for recorder.test.ts: mounts useVoiceRecorder on its own and exposes its controls and results on window,
+// so the test can drive it from headless Chrome the way the composer's microphone button does.
+
+export interface RecordedSummary {
+    size: number;
+    mimeType: string;
+    durationMs: number;
+    waveform: number[];
+}
+
+export interface RecorderHarness {
+    start: () => Promise<void>;
+    stop: () => void;
+    cancel: () => void;
+    isRecording: boolean;
+    recordings: RecordedSummary[];
+    errors: ChatError[];
+}
+
+declare global {
+    interface Window {
+        recorder?: RecorderHarness;
+    }
+}
+
+const recordings: RecordedSummary[] = [];
+const errors: ChatError[] = [];
+
+const Harness = () => {
+    const recorder = useVoiceRecorder(
+        ({ blob, durationMs, waveform }) => recordings.push({ size: blob.size, mimeType: blob.type, durationMs, waveform }),
+        (error) => errors.push(error)
+    );
+
+    useEffect(() => {
+        window.recorder = { ...recorder, recordings, errors };
+    }, [recorder]);
+
+    return <p>{recorder.isRecording ? 'Recording' : 'Idle'}</p>;
+};
+
+ReactDOM.createRoot(document.getElementById('root')!).render(<Harness />);
@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { deleteApp, initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, doc, getDoc, getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
+import { FirestoreBackend } from '../../services/firestoreBackend';
+import { FirebaseServices } from '../../services/firebaseConfig';
+import { PROJECT_ID, hasAuthEmulator, hasFirestoreEmulator } from '../support/emulator';
+
+// Several people acting on the same chat at the same moment, each through their own app and backend,
+// the way separate browsers would. Checks that no write is lost and no invariant breaks under contention.
+
+interface Member {
+  uid: string;
+  backend: FirestoreBackend;
+  services: FirebaseServices;
+}
+
+const run = `${Date.now().toString(36)}`;
+
+const connect = (name: string): FirebaseServices => {
+  const app = initializeApp({ projectId: PROJECT_ID, apiKey: 'demo-api-key' }, `${name}-${run}`);
+  const auth = getAuth(app);
+  const db = getFirestore(app);
+  connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST!.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  return { app, auth, db, storage: getStorage(app), analytics: Promise.resolve(null) };
+};
+
+const signUp = async (name: string): Promise<Member> => {
+  const services = connect(name);
+  const backend = new FirestoreBackend(services);
+  const user = await backend.register(`${name}-${run}@example.com`, 'password', name);
+  return { uid: user.userId, backend, services };
+};
+
+const chatOf = async (member: Member, chatId: string) =>
+  (await getDoc(doc(member.services.db, 'chats', chatId))).data()!;
+
+const createGroup = async (admin: Member, members: Member[]) => {
+  const result = await admin.backend.createGroupChat('Team', '', members.map(m => m.uid));
+  if (!result.success) throw new Error(`Couldn't create the group: ${result.error.code}`);
+  return result.data;
+};
+
+describe.skipIf(!hasFirestoreEmulator || !hasAuthEmulator)('FirestoreBackend under concurrent writers', () => {
+  let alice: Member, bob: Member, carol: Member, dave: Member;
+
+  beforeAll(async () => {
+    [alice, bob, carol, dave] = await Promise.all(['alice', 'bob', 'carol', 'dave'].map(signUp));
+  });
+
+  afterAll(async () => {
+    for (const member of [alice, bob, carol, dave].filter(Boolean)) {
+      await member.backend.logout();
+      await deleteApp(member.services.app);
+    }
+  });
+
+  it('keeps every reaction when members react at once', async () => {
+    const chatId = await createGroup(alice, [bob, carol]);
+    expect((await alice.backend.sendMessage(chatId, 'hello', 'group', undefined, undefined, 'reacted')).success).toBe(true);
+
+    const results = await Promise.all([alice, bob, carol].map(m => m.backend.addReaction(chatId, 'reacted', '👍')));
+    expect(results.every(r => r.success)).toBe(true);
+
+    const message = (await getDoc(doc(alice.services.db, 'chats', chatId, 'messages', 'reacted'))).data()!;
+    expect([...message.reactions['👍']].sort()).toEqual([alice.uid, bob.uid, carol.uid].sort());
+  });
+
+  it('keeps every member when admins add people at once', async () => {
+    const chatId = await createGroup(alice, [bob]);
+    expect((await alice.backend.makeAdmin(chatId, bob.uid)).success).toBe(true);
+
+    const results = await Promise.all([
+      alice.backend.addGroupMember(chatId, carol.uid),
+      bob.backend.addGroupMember(chatId, dave.uid)
+    ]);
+    expect(results.every(r => r.success)).toBe(true);
+
+    const chat = await chatOf(alice, chatId);
+    expect([...chat.participants].sort()).toEqual([alice.uid, bob.uid, carol.uid, dave.uid].sort());
+  });
+
+  it('never leaves a group without an admin when both admins leave at once', async () => {
+    const chatId = await createGroup(alice, [bob, carol]);
+    expect((await alice.backend.makeAdmin(chatId, bob.uid)).success).toBe(true);
+
+    const results = await Promise.all([alice.backend.leaveGroup(chatId), bob.backend.leaveGroup(chatId)]);
+    expect(results.filter(r => r.success)).toHaveLength(1);
+    expect(results.find(r => !r.success)).toMatchObject({ error: { code: 'PERMISSION_DENIED', reason: 'last_admin' } });
+
+    const chat = await chatOf(carol, chatId);
+    expect(chat.admins).toHaveLength(1);
+    expect(chat.participants).toContain(chat.admins[0]);
+  });
+
+  it('removes both members when two admins remove different people at once', async () => {
+    const chatId = await createGroup(alice, [bob, carol, dave]);
+    expect((await alice.backend.makeAdmin(chatId, bob.uid)).success).toBe(true);
+
+    const results = await Promise.all([
+      alice.backend.removeGroupMember(chatId, carol.uid),
+      bob.backend.removeGroupMember(chatId, dave.uid)
+    ]);
+    expect(results.every(r => r.success)).toBe(true);
+
+    const chat = await chatOf(alice, chatId);
+    expect([...chat.participants].sort()).toEqual([alice.uid, bob.uid].sort());
+  });
+});
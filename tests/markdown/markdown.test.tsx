@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { renderMarkdown, renderMarkdownInline } from '../../utils/markdown';
+
+describe('renderMarkdown', () => {
+  it('opens web links in a new tab without an opener or referrer', () => {
+    expect(renderToStaticMarkup(renderMarkdown('see https://example.com'))).toBe(
+      '<div class="space-y-2"><p>see <a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow"'
+      + ' class="underline underline-offset-2 break-all">https://example.com</a></p></div>'
+    );
+  });
+
+  it('escapes HTML instead of rendering it', () => {
+    const html = renderToStaticMarkup(renderMarkdown('<img src=x onerror=alert(1)> [x](javascript:alert(1))'));
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('href="javascript');
+  });
+});
+
+describe('renderMarkdownInline', () => {
+  it('runs blocks together without clickable links', () => {
+    const html = renderToStaticMarkup(<>{renderMarkdownInline('# Title\n- item https://example.com')}</>);
+    expect(html).toBe('Title item <span class="underline underline-offset-2">https://example.com</span>');
+  });
+});
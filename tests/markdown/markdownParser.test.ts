@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import { Block, Inline, parseMarkdown } from '../../utils/markdownParser';
+
+// The Markdown subset of chat messages, and how long the parser takes on input crafted to make it slow.
+
+const t = (text: string): Inline => ({ type: 'text', text });
+const code = (text: string): Inline => ({ type: 'code', text });
+const em = (...children: Inline[]): Inline => ({ type: 'em', children });
+const strong = (...children: Inline[]): Inline => ({ type: 'strong', children });
+const del = (...children: Inline[]): Inline => ({ type: 'del', children });
+const link = (href: string, ...children: Inline[]): Inline => ({ type: 'link', href, children });
+const p = (...children: Inline[]): Block => ({ type: 'paragraph', children });
+
+// Inlines of a message that is a single paragraph
+const inlines = (text: string) => {
+  const blocks = parseMarkdown(text);
+  expect(blocks).toHaveLength(1);
+  expect(blocks[0].type).toBe('paragraph');
+  return (blocks[0] as { children: Inline[] }).children;
+};
+
+describe('blocks', () => {
+  it('parses paragraphs and keeps line breaks inside them', () => {
+    expect(parseMarkdown('one\ntwo\n\nthree')).toEqual([p(t('one\ntwo')), p(t('three'))]);
+  });
+
+  it('parses headings', () => {
+    expect(parseMarkdown('# Title\n###### Small ##')).toEqual([
+      { type: 'heading', level: 1, children: [t('Title')] },
+      { type: 'heading', level: 6, children: [t('Small')] }
+    ]);
+    expect(parseMarkdown('#hashtag')).toEqual([p(t('#hashtag'))]);
+  });
+
+  it('parses fenced code with its language', () => {
+    expect(parseMarkdown('```TS\nconst a = *b*;\n```\nafter')).toEqual([
+      { type: 'code', lang: 'ts', text: 'const a = *b*;' },
+      p(t('after'))
+    ]);
+    expect(parseMarkdown('~~~\nunclosed\n\nstill code')).toEqual([{ type: 'code', lang: '', text: 'unclosed\n\nstill code' }]);
+  });
+
+  it('treats backticks on a single line as a code span', () => {
+    expect(parseMarkdown('```code```')).toEqual([p(code('code'))]);
+  });
+
+  it('parses blockquotes with lazy continuation', () => {
+    expect(parseMarkdown('> quoted\ncontinued\n\nreply')).toEqual([
+      { type: 'blockquote', children: [p(t('quoted\ncontinued'))] },
+      p(t('reply'))
+    ]);
+  });
+
+  it('parses bullet and ordered lists', () => {
+    expect(parseMarkdown('- a\n- b\n  more')).toEqual([
+      { type: 'list', ordered: false, start: 1, items: [[p(t('a'))], [p(t('b\nmore'))]] }
+    ]);
+    expect(parseMarkdown('3. three\n4. four')).toEqual([
+      { type: 'list', ordered: true, start: 3, items: [[p(t('three'))], [p(t('four'))]] }
+    ]);
+  });
+
+  it('starts a new list when the bullet changes', () => {
+    expect(parseMarkdown('- a\n+ b').map(block => block.type)).toEqual(['list', 'list']);
+  });
+
+  it('only interrupts a paragraph with a list that starts at 1', () => {
+    expect(parseMarkdown('Back in\n1986. A great year')).toEqual([p(t('Back in\n1986. A great year'))]);
+  });
+
+  it('parses thematic breaks before lists', () => {
+    expect(parseMarkdown('* * *\n---')).toEqual([{ type: 'rule' }, { type: 'rule' }]);
+  });
+
+  it('leaves indented code and setext headings as text', () => {
+    expect(parseMarkdown('    indented')).toEqual([p(t('indented'))]);
+    expect(parseMarkdown('Title\n===')).toEqual([p(t('Title\n==='))]);
+  });
+});
+
+describe('inlines', () => {
+  it('parses emphasis, strong and strikethrough', () => {
+    expect(inlines('*em* **strong** ~~gone~~')).toEqual([em(t('em')), t(' '), strong(t('strong')), t(' '), del(t('gone'))]);
+    expect(inlines('_em_ __strong__')).toEqual([em(t('em')), t(' '), strong(t('strong'))]);
+  });
+
+  it('nests emphasis', () => {
+    expect(inlines('***both***')).toEqual([em(strong(t('both')))]);
+    expect(inlines('**bold *and em***')).toEqual([strong(t('bold '), em(t('and em')))]);
+    expect(inlines('*foo**bar*')).toEqual([em(t('foo**bar'))]);
+  });
+
+  it('keeps intraword asterisks and underscores literal', () => {
+    expect(inlines('2*3*4')).toEqual([t('2*3*4')]);
+    expect(inlines('snake_case_name')).toEqual([t('snake_case_name')]);
+    expect(inlines('a * not emphasis *')).toEqual([t('a * not emphasis *')]);
+  });
+
+  it('only strikes through with exactly two tildes', () => {
+    expect(inlines('~one~ ~~~three~~~')).toEqual([t('~one~ ~~~three~~~')]);
+  });
+
+  it('parses code spans without formatting inside them', () => {
+    expect(inlines('run `a *b* c` now')).toEqual([t('run '), code('a *b* c'), t(' now')]);
+    expect(inlines('`` a ` b ``')).toEqual([code('a ` b')]);
+    expect(inlines('`unclosed')).toEqual([t('`unclosed')]);
+  });
+
+  it('honours backslash escapes', () => {
+    expect(inlines('\\*not em\\* \\[x\\]')).toEqual([t('*not em* [x]')]);
+    expect(inlines('C:\\path')).toEqual([t('C:\\path')]);
+  });
+
+  it('parses links with formatted text', () => {
+    expect(inlines('[*docs*](https://example.com/a_(b) "Title")')).toEqual([
+      link('https://example.com/a_(b)', em(t('docs')))
+    ]);
+    expect(inlines('[site](<https://example.com/a b>)')).toEqual([link('https://example.com/a b', t('site'))]);
+    expect(inlines('[www](www.example.com)')).toEqual([link('https://www.example.com', t('www'))]);
+  });
+
+  it('never puts a link inside a link', () => {
+    expect(inlines('[[inner](https://a.com)](https://b.com)')).toEqual([
+      t('['), link('https://a.com', t('inner')), t(']('), link('https://b.com', t('https://b.com')), t(')')
+    ]);
+  });
+
+  it('leaves links with unsafe schemes as text', () => {
+    expect(inlines('[x](javascript:alert(1))')).toEqual([t('[x](javascript:alert(1))')]);
+    expect(inlines('[x](data:text/html,hi) <javascript:alert(1)>')).toEqual([t('[x](data:text/html,hi) <javascript:alert(1)>')]);
+    expect(inlines('[x](/relative)')).toEqual([t('[x](/relative)')]);
+  });
+
+  it('parses autolinks', () => {
+    expect(inlines('<https://example.com/?q=1> <me@example.com>')).toEqual([
+      link('https://example.com/?q=1', t('https://example.com/?q=1')),
+      t(' '),
+      link('mailto:me@example.com', t('me@example.com'))
+    ]);
+  });
+});
+
+describe('bare links', () => {
+  it('links URLs without trailing punctuation', () => {
+    expect(inlines('see https://example.com/path.')).toEqual([
+      t('see '), link('https://example.com/path', t('https://example.com/path')), t('.')
+    ]);
+    expect(inlines('(www.example.com)')).toEqual([t('('), link('https://www.example.com', t('www.example.com')), t(')')]);
+  });
+
+  it('keeps a closing paren that has its opening one', () => {
+    const url = 'https://en.wikipedia.org/wiki/Chat_(software)';
+    expect(inlines(`${url}.`)).toEqual([link(url, t(url)), t('.')]);
+  });
+
+  it('links emails', () => {
+    expect(inlines('mail first.last+chat@mail.example.org, thanks')).toEqual([
+      t('mail '), link('mailto:first.last+chat@mail.example.org', t('first.last+chat@mail.example.org')), t(', thanks')
+    ]);
+  });
+
+  it('links international phone numbers', () => {
+    expect(inlines('call +380 67 123 4567 or +1 (555) 010-0199')).toEqual([
+      t('call '),
+      link('tel:+380671234567', t('+380 67 123 4567')),
+      t(' or '),
+      link('tel:+15550100199', t('+1 (555) 010-0199'))
+    ]);
+  });
+
+  it('does not link arithmetic or mid-word matches', () => {
+    expect(inlines('2+2 = 4, +1 234, abc.www.x, a+380671234567')).toEqual([t('2+2 = 4, +1 234, abc.www.x, a+380671234567')]);
+  });
+
+  it('does not link inside code spans or links', () => {
+    expect(inlines('`https://example.com` [site](https://a.com)')).toEqual([
+      code('https://example.com'), t(' '), link('https://a.com', t('site'))
+    ]);
+  });
+
+  it('links across unmatched delimiters', () => {
+    expect(inlines('https://example.com/a_b*c')).toEqual([link('https://example.com/a_b*c', t('https://example.com/a_b*c'))]);
+  });
+});
+
+describe('pathological input', () => {
+  // Quadratic behaviour takes seconds at these sizes; linear parsing takes a few milliseconds
+  const cases: Record<string, string> = {
+    'a long word': 'a'.repeat(100_000),
+    'a word of dots': 'a.'.repeat(50_000),
+    'a word of underscores': '_a'.repeat(50_000),
+    'plus signs': '+1'.repeat(50_000),
+    'a long email domain': `a@${'b.'.repeat(50_000)}`,
+    'closing parens after a URL': `https://example.com/${')'.repeat(100_000)}`,
+    'unclosed link destinations': '[](('.repeat(25_000),
+    'unclosed link titles': '[](x ('.repeat(16_000),
+    'unclosed angle destinations': '[](<'.repeat(25_000),
+    'unclosed autolinks': '<a@'.repeat(33_000),
+    'emphasis': '*a* '.repeat(25_000),
+    'emphasis that never closes': `${'*a '.repeat(16_000)}${'a_ '.repeat(16_000)}`,
+    'nested emphasis': `${'*_'.repeat(25_000)}x${'_*'.repeat(25_000)}`,
+    'open brackets before links': `${'['.repeat(50_000)}${'[a](https://x.com)'.repeat(3_000)}`,
+    'links after emphasis': `${'*a '.repeat(16_000)}${'[b](https://x.com) '.repeat(3_000)}`,
+    'code span runs': '`` `'.repeat(25_000),
+    'nested quotes': `${'> '.repeat(50_000)}x`
+  };
+
+  for (const [name, text] of Object.entries(cases)) {
+    it(`parses ${name} in linear time`, () => {
+      const start = performance.now();
+      parseMarkdown(text);
+      expect(performance.now() - start).toBeLessThan(1000);
+    });
+  }
+});
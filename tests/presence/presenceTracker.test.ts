@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HEARTBEAT_INTERVAL_MS, PresenceTracker } from '../../services/presence';
+
+// Several tabs of the same user, talking over an in-process stand-in for BroadcastChannel
+
+class FakeChannel {
+  static open: FakeChannel[] = [];
+  onmessage: ((e: MessageEvent) => void) | null = null;
+  private closed = false;
+
+  constructor(private name: string) {
+    FakeChannel.open.push(this);
+  }
+
+  postMessage(data: unknown) {
+    if (this.closed) throw new DOMException('Channel is closed', 'InvalidStateError');
+    FakeChannel.open
+      .filter(other => other !== this && other.name === this.name)
+      .forEach(other => other.onmessage?.({ data } as MessageEvent));
+  }
+
+  close() {
+    this.closed = true;
+    FakeChannel.open = FakeChannel.open.filter(other => other !== this);
+  }
+}
+
+const openTab = () => {
+  const publish = vi.fn((_isOnline: boolean) => Promise.resolve());
+  const tracker = new PresenceTracker('alex', publish);
+  return { tracker, publish, channel: FakeChannel.open[FakeChannel.open.length - 1] };
+};
+
+describe('PresenceTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('BroadcastChannel', FakeChannel);
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    FakeChannel.open = [];
+  });
+
+  it('lets one visible tab write heartbeats', () => {
+    const tabs = [openTab(), openTab()];
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+
+    const writers = tabs.filter(tab => tab.publish.mock.calls.length > 3);
+    expect(writers).toHaveLength(1);
+    tabs.forEach(tab => tab.tracker.stop());
+  });
+
+  it('takes over the heartbeat when the leader tab dies without saying bye', () => {
+    const tabs = [openTab(), openTab()];
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS);
+    const leader = tabs.find(tab => tab.publish.mock.calls.length > 1)!;
+    const follower = tabs.find(tab => tab !== leader)!;
+    const followerBeats = follower.publish.mock.calls.length;
+
+    // A crash: the tab goes silent, and nothing it does afterwards reaches the other tabs or the server
+    leader.channel.close();
+    leader.tracker.stop();
+
+    vi.advanceTimersByTime(HEARTBEAT_INTERVAL_MS * 3);
+    expect(follower.publish.mock.calls.length).toBeGreaterThan(followerBeats);
+    expect(follower.publish).toHaveBeenLastCalledWith(true);
+    follower.tracker.stop();
+  });
+});
@@ -0,0 +1,274 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import {
+  Timestamp,
+  arrayRemove,
+  arrayUnion,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore';
+import { PROJECT_ID, firestoreOf, hasFirestoreEmulator, minutesAgo } from '../support/emulator';
+
+// alice and bob share a direct chat; alice is the admin of a group with bob and dave; carol is in neither
+const db = (uid: string | null) =>
+  firestoreOf(uid ? testEnv.authenticatedContext(uid) : testEnv.unauthenticatedContext());
+
+let testEnv: RulesTestEnvironment;
+
+const seed = (write: (db: ReturnType<typeof firestoreOf>) => Promise<unknown>) =>
+  testEnv.withSecurityRulesDisabled(context => write(firestoreOf(context)).then(() => undefined));
+
+const message = (senderId: string, fields: Record<string, unknown> = {}) => ({
+  senderId,
+  receiverId: 'bob',
+  text: 'hello',
+  type: 'text',
+  createdAt: Timestamp.fromDate(new Date()),
+  reactions: {},
+  ...fields
+});
+
+describe.skipIf(!hasFirestoreEmulator)('firestore.rules', () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+    });
+  });
+
+  afterAll(() => testEnv?.cleanup());
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seed(async store => {
+      for (const uid of ['alice', 'bob', 'carol', 'dave']) {
+        await setDoc(doc(store, 'users', uid), { userId: uid, displayName: uid, blockedUsers: [] });
+      }
+      await setDoc(doc(store, 'chats', 'direct'), { type: 'direct', participants: ['alice', 'bob'] });
+      await setDoc(doc(store, 'chats', 'group'), {
+        type: 'group', name: 'Team', participants: ['alice', 'bob', 'dave'], admins: ['alice']
+      });
+      await setDoc(doc(store, 'chats/direct/messages/fresh'), message('alice', { reactions: { '❤️': ['bob'] } }));
+      await setDoc(doc(store, 'chats/direct/messages/old'), message('alice', { createdAt: Timestamp.fromDate(minutesAgo(120)) }));
+      await setDoc(doc(store, 'chats/direct/messages/deleted'), message('alice', { text: 'Message deleted', deletedAt: Timestamp.now() }));
+      await setDoc(doc(store, 'chats/group/messages/fromBob'), message('bob', { receiverId: 'group' }));
+      await setDoc(doc(store, 'users/alice/chats/direct'), { userId: 'alice', chatId: 'direct', unreadCount: 0 });
+    });
+  });
+
+  describe('users', () => {
+    it('lets signed-in users read profiles', async () => {
+      await assertSucceeds(getDoc(doc(db('carol'), 'users/alice')));
+      await assertFails(getDoc(doc(db(null), 'users/alice')));
+    });
+
+    it('only lets users write their own profile', async () => {
+      await assertSucceeds(updateDoc(doc(db('alice'), 'users/alice'), { displayName: 'Alice' }));
+      await assertFails(updateDoc(doc(db('bob'), 'users/alice'), { displayName: 'Mallory' }));
+    });
+  });
+
+  describe('chat index', () => {
+    it('is private to its owner', async () => {
+      await assertSucceeds(getDoc(doc(db('alice'), 'users/alice/chats/direct')));
+      await assertFails(getDoc(doc(db('bob'), 'users/alice/chats/direct')));
+    });
+
+    it('lets users create their own entry', async () => {
+      await assertSucceeds(setDoc(doc(db('bob'), 'users/bob/chats/direct'), { userId: 'bob', chatId: 'direct' }));
+    });
+
+    it("doesn't let a chat member create another member's entry", async () => {
+      await assertFails(setDoc(doc(db('alice'), 'users/bob/chats/direct'), {
+        userId: 'bob', chatId: 'direct', lastMessage: 'forged', unreadCount: 99
+      }));
+    });
+
+    it("doesn't let the owner move an entry to another chat", async () => {
+      await assertFails(updateDoc(doc(db('alice'), 'users/alice/chats/direct'), { chatId: 'group' }));
+    });
+  });
+
+  describe('chats', () => {
+    it('are only readable by participants', async () => {
+      await assertSucceeds(getDoc(doc(db('bob'), 'chats/direct')));
+      await assertFails(getDoc(doc(db('carol'), 'chats/direct')));
+    });
+
+    it("can't be created with someone who blocked you", async () => {
+      await seed(store => updateDoc(doc(store, 'users/carol'), { blockedUsers: ['bob'] }));
+      await assertFails(setDoc(doc(db('bob'), 'chats/new'), { type: 'direct', participants: ['bob', 'carol'] }));
+      await assertSucceeds(setDoc(doc(db('bob'), 'chats/new'), { type: 'direct', participants: ['bob', 'dave'] }));
+    });
+
+    it('only lets group admins rename the group or change members', async () => {
+      await assertSucceeds(updateDoc(doc(db('alice'), 'chats/group'), { name: 'Renamed' }));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/group'), { name: 'Renamed' }));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/group'), { participants: arrayUnion('carol') }));
+    });
+
+    it('only lets participants change their own per-user state', async () => {
+      await assertSucceeds(updateDoc(doc(db('bob'), 'chats/direct'), { 'readUpTo.bob': serverTimestamp() }));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/direct'), { 'readUpTo.alice': serverTimestamp() }));
+    });
+
+    it('keep both members of a direct chat when one of them deletes it', async () => {
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct'), { participants: arrayRemove('alice') }));
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct'), { 'deletedBy.bob': serverTimestamp() }));
+
+      const batch = writeBatch(db('alice'));
+      batch.update(doc(db('alice'), 'chats/direct'), { 'deletedBy.alice': serverTimestamp() });
+      batch.delete(doc(db('alice'), 'users/alice/chats/direct'));
+      await assertSucceeds(batch.commit());
+
+      // bob's next message still reaches alice in the same chat
+      await assertSucceeds(setDoc(doc(db('bob'), 'chats/direct/messages/new'), {
+        ...message('bob', { receiverId: 'alice' }), createdAt: serverTimestamp()
+      }));
+      await assertSucceeds(getDoc(doc(db('alice'), 'chats/direct/messages/new')));
+      await assertSucceeds(setDoc(doc(db('alice'), 'users/alice/chats/direct'), { userId: 'alice', chatId: 'direct' }));
+    });
+
+    it('can only be deleted for good by the last member of a direct chat to delete it', async () => {
+      await assertFails(deleteDoc(doc(db('bob'), 'chats/direct')));
+      await seed(store => updateDoc(doc(store, 'chats/direct'), { 'deletedBy.alice': Timestamp.now() }));
+      await assertFails(deleteDoc(doc(db('alice'), 'chats/direct')));
+      await assertSucceeds(deleteDoc(doc(db('bob'), 'chats/direct')));
+    });
+
+    it('only lets admins change the message rules', async () => {
+      await assertSucceeds(updateDoc(doc(db('alice'), 'chats/group'), { editWindowMinutes: 60 }));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/group'), { editWindowMinutes: null }));
+    });
+  });
+
+  describe('messages', () => {
+    const newMessage = (senderId: string) => ({ ...message(senderId), createdAt: serverTimestamp() });
+
+    it('are only readable and writable by participants', async () => {
+      await assertSucceeds(getDoc(doc(db('bob'), 'chats/direct/messages/fresh')));
+      await assertFails(getDoc(doc(db('carol'), 'chats/direct/messages/fresh')));
+      await assertSucceeds(setDoc(doc(db('bob'), 'chats/direct/messages/new'), newMessage('bob')));
+      await assertFails(setDoc(doc(db('carol'), 'chats/direct/messages/new'), newMessage('carol')));
+    });
+
+    it("can't be sent in someone else's name", async () => {
+      await assertFails(setDoc(doc(db('bob'), 'chats/direct/messages/new'), newMessage('alice')));
+    });
+
+    it("can't be sent to someone who blocked you", async () => {
+      await seed(store => updateDoc(doc(store, 'users/bob'), { blockedUsers: ['alice'] }));
+      await assertFails(setDoc(doc(db('alice'), 'chats/direct/messages/new'), newMessage('alice')));
+    });
+
+    it('can only be edited by the sender within the edit window', async () => {
+      const edit = { text: 'edited', isEdited: true, editedAt: serverTimestamp() };
+      await assertSucceeds(updateDoc(doc(db('alice'), 'chats/direct/messages/fresh'), edit));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/direct/messages/fresh'), edit));
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct/messages/old'), edit));
+    });
+
+    it("can't be edited once deleted", async () => {
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct/messages/deleted'), {
+        text: 'back again', isEdited: true, editedAt: serverTimestamp()
+      }));
+    });
+
+    it('can only be deleted for everyone by the sender within the delete window', async () => {
+      const tombstone = { text: 'Message deleted', deletedAt: serverTimestamp() };
+      await assertFails(updateDoc(doc(db('bob'), 'chats/direct/messages/fresh'), tombstone));
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct/messages/old'), tombstone));
+      await assertSucceeds(updateDoc(doc(db('alice'), 'chats/direct/messages/fresh'), tombstone));
+    });
+
+    it('lose their encryption fields when deleted for everyone', async () => {
+      await seed(store => setDoc(doc(store, 'chats/direct/messages/secret'), message('alice', {
+        text: 'ciphertext', iv: 'iv', isEncrypted: true, senderPublicKey: 'key'
+      })));
+      const ref = doc(db('alice'), 'chats/direct/messages/secret');
+      await assertFails(updateDoc(ref, { text: 'Message deleted', deletedAt: serverTimestamp() }));
+      await assertSucceeds(updateDoc(ref, {
+        text: 'Message deleted', deletedAt: serverTimestamp(),
+        iv: deleteField(), isEncrypted: deleteField(), senderPublicKey: deleteField()
+      }));
+    });
+
+    it("can't be hard-deleted by the other side of a direct chat", async () => {
+      await assertFails(deleteDoc(doc(db('bob'), 'chats/direct/messages/fresh')));
+      await assertFails(deleteDoc(doc(db('alice'), 'chats/direct/messages/old')));
+      await assertSucceeds(deleteDoc(doc(db('alice'), 'chats/direct/messages/fresh')));
+    });
+
+    it('can be hard-deleted by a group admin, or by the last member of a direct chat to delete it', async () => {
+      await assertFails(deleteDoc(doc(db('dave'), 'chats/group/messages/fromBob')));
+      await assertSucceeds(deleteDoc(doc(db('alice'), 'chats/group/messages/fromBob')));
+
+      await seed(store => updateDoc(doc(store, 'chats/direct'), { 'deletedBy.bob': Timestamp.now() }));
+      await assertSucceeds(deleteDoc(doc(db('alice'), 'chats/direct/messages/old')));
+    });
+  });
+
+  describe('reactions', () => {
+    const ref = (uid: string) => doc(db(uid), 'chats/direct/messages/fresh');
+
+    it('let participants add and remove their own reaction', async () => {
+      await assertSucceeds(updateDoc(ref('alice'), { 'reactions.❤️': arrayUnion('alice') }));
+      await assertSucceeds(updateDoc(ref('alice'), { 'reactions.👍': arrayUnion('alice') }));
+      await assertSucceeds(updateDoc(ref('bob'), { 'reactions.❤️': arrayRemove('bob') }));
+    });
+
+    it("don't let anyone add or remove someone else's reaction", async () => {
+      await assertFails(updateDoc(ref('alice'), { 'reactions.👍': arrayUnion('bob') }));
+      await assertFails(updateDoc(ref('alice'), { 'reactions.❤️': arrayRemove('bob') }));
+      await assertFails(updateDoc(ref('alice'), { 'reactions.❤️': deleteField() }));
+    });
+
+    it("don't let anyone rewrite the whole map", async () => {
+      await assertFails(updateDoc(ref('alice'), { reactions: { '❤️': ['alice'] } }));
+      await assertFails(updateDoc(ref('alice'), { reactions: {} }));
+    });
+
+    it("are closed to people outside the chat", async () => {
+      await assertFails(updateDoc(ref('carol'), { 'reactions.❤️': arrayUnion('carol') }));
+    });
+  });
+
+  describe('voice messages', () => {
+    beforeEach(() => seed(store => setDoc(doc(store, 'chats/direct/messages/voice'), message('alice', {
+      type: 'audio', playedBy: []
+    }))));
+
+    it('can only be marked played by recipients, for themselves', async () => {
+      await assertSucceeds(updateDoc(doc(db('bob'), 'chats/direct/messages/voice'), { playedBy: arrayUnion('bob') }));
+      await assertFails(updateDoc(doc(db('alice'), 'chats/direct/messages/voice'), { playedBy: arrayUnion('alice') }));
+      await assertFails(updateDoc(doc(db('bob'), 'chats/direct/messages/voice'), { playedBy: ['bob', 'dave'] }));
+    });
+  });
+
+  describe('edit history', () => {
+    it('is only written together with an edit by the sender', async () => {
+      const revision = { text: 'hello', authorId: 'alice', writtenAt: Timestamp.now() };
+      await assertFails(setDoc(doc(db('alice'), 'chats/direct/messages/fresh/revisions/r1'), revision));
+
+      const batch = writeBatch(db('alice'));
+      batch.set(doc(db('alice'), 'chats/direct/messages/fresh/revisions/r1'), revision);
+      batch.update(doc(db('alice'), 'chats/direct/messages/fresh'), { text: 'edited', isEdited: true, editedAt: serverTimestamp() });
+      await assertSucceeds(batch.commit());
+    });
+  });
+
+  describe('reports', () => {
+    it('are write-only', async () => {
+      await assertSucceeds(setDoc(doc(db('bob'), 'reports/r1'), { reporterId: 'bob', status: 'pending' }));
+      await assertFails(getDoc(doc(db('bob'), 'reports/r1')));
+      await assertFails(setDoc(doc(db('bob'), 'reports/r2'), { reporterId: 'alice', status: 'pending' }));
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { Firestore } from 'firebase/firestore';
+import { RulesTestContext } from '@firebase/rules-unit-testing';
+
+// Project used by every emulator-backed suite (and by `npm run test:emulator`)
+export const PROJECT_ID = 'demo-czat';
+
+// Emulator suites skip themselves unless they run under `firebase emulators:exec`, which sets this
+export const hasFirestoreEmulator = !!process.env.FIRESTORE_EMULATOR_HOST;
+export const hasAuthEmulator = !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+// The test contexts hand out compat instances; the modular functions accept them as they are
+export const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+export const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
@@ -15,6 +15,7 @@ export interface User {
     showLastSeen?: 'everyone' | 'nobody';
     showPhoto?: 'everyone' | 'nobody';
     showOnline?: 'everyone' | 'nobody';
+    defaultDisappearingMinutes?: number | null; // Timer applied to chats this user creates
   };
 }
 
@@ -25,6 +26,7 @@ export interface Chat {
   lastMessage: string;
   lastMessageAt: Date;
   lastMessageSender: string;
+  lastMessageId?: string; // Set by the fan-out function; lets "Delete for me" hide the preview too
   createdAt: Date;
 
   // Group chat specific fields
@@ -32,7 +34,15 @@ export interface Chat {
   description?: string; // Group description
   admins?: string[]; // Array of admin user IDs
 
-  // Per-user settings (stored as maps in Firestore)
+  // Disappearing messages: every new message expires this many minutes after sending (null = off)
+  disappearingMinutes?: number | null;
+
+  // How long senders may edit or delete for everyone, in minutes (null = no limit, 0 = never).
+  // Missing means the defaults in utils/messagePolicy.ts.
+  editWindowMinutes?: number | null;
+  deleteWindowMinutes?: number | null;
+
+  // Per-user settings (joined from the user's chat index)
   isArchived?: boolean; // Whether current user has archived
   isMuted?: boolean; // Whether current user has muted
   isPinned?: boolean; // Whether current user has pinned
@@ -41,7 +51,15 @@ export interface Chat {
   otherUser?: User; // For direct chats
   groupMembers?: User[]; // For group chats
   unreadCount?: number;
-  typingUsers?: { [userId: string]: boolean };
+  typingUsers?: { [userId: string]: Date }; // When each member last reported typing; stale entries are ignored
+
+  // Receipt cursors: every message created at or before a member's cursor has reached / been read by them
+  deliveredUpTo?: { [userId: string]: Date };
+  readUpTo?: { [userId: string]: Date };
+
+  // Direct chats: when each member removed the chat from their list. Both stay participants; a new message or
+  // starting the chat again brings it back without the history from before.
+  deletedBy?: { [userId: string]: Date };
 }
 
 export enum MessageStatus {
@@ -49,6 +67,7 @@ export enum MessageStatus {
   SENT = 'sent',
   DELIVERED = 'delivered',
   READ = 'read',
+  FAILED = 'failed', // Gave up retrying in the outbox; the user can retry or discard
 }
 
 export interface Message {
@@ -64,7 +83,9 @@ export interface Message {
     senderDisplayName: string;
   };
   reactions?: { [emoji: string]: string[] }; // emoji -> array of userIds
-  type?: 'text';
+  type?: 'text' | 'system' | 'attachment' | 'audio'; // 'system': timeline notice such as a timer change, text is prefixed with the sender's name
+  attachment?: Attachment; // types 'attachment' and 'audio' (voice messages); text is empty
+  playedBy?: string[]; // Voice messages: recipients who have listened to it
   isPinned?: boolean;
   isEdited?: boolean;
   editedAt?: Date;
@@ -74,11 +95,46 @@ export interface Message {
   expiresAt?: Date;
 }
 
+// File sent as a message, stored in Storage at chats/{chatId}/attachments/{messageId}/{name}
+export interface Attachment {
+  kind: 'image' | 'video' | 'file' | 'audio'; // 'audio': voice message
+  url: string; // Download URL
+  storagePath: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  // Images only: original dimensions and a small JPEG data URL generated on the sender's device
+  width?: number;
+  height?: number;
+  thumbnail?: string;
+  // Voice messages only: length and peak levels (0 to 1) for the waveform preview
+  durationMs?: number;
+  waveform?: number[];
+}
+
+// Earlier version of an edited message: chats/{chatId}/messages/{messageId}/revisions/{revisionId}
+export interface MessageRevision {
+  revisionId: string;
+  text: string;
+  authorId: string;
+  writtenAt: Date; // When this version was sent, or saved by an earlier edit
+}
+
+// Per-user chat index entry: users/{userId}/chats/{chatId}
+// Holds the list preview plus everything that is private to one participant.
 export interface UserChat {
   userId: string;
   chatId: string;
+  type: 'direct' | 'group';
   lastMessage: string;
   lastMessageAt: Date;
+  lastMessageSender: string;
   unreadCount: number;
-  otherUserId: string;
+  otherUserId: string; // Empty for group chats
+  isArchived: boolean;
+  isMuted: boolean;
+  isPinned: boolean;
+  // "Delete for me": messages hidden one by one, and everything up to the time history was cleared
+  hiddenMessageIds: string[];
+  clearedAt: Date | null;
 }
@@ -0,0 +1,104 @@
+import { Attachment, Message } from '../types';
+import { ChatErrorReason } from '../services/chatErrors';
+
+// Limits for files sent as messages. storage.rules enforces the same ones; keep them in sync.
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+// Files picked in the composer. Audio only arrives as voice messages (VOICE_MIME_TYPES).
+type FileKind = Exclude<Attachment['kind'], 'audio'>;
+
+const ALLOWED_MIME_TYPES: Record<FileKind, string[]> = {
+    image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    video: ['video/mp4', 'video/webm', 'video/quicktime'],
+    file: [
+        'application/pdf',
+        'application/zip',
+        'text/plain',
+        'text/csv',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.ms-powerpoint',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ]
+};
+
+// What MediaRecorder produces in Chrome and Firefox (webm, ogg) and Safari (mp4)
+export const VOICE_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4'];
+
+// For the file picker's accept attribute
+export const ACCEPTED_MIME_TYPES = Object.values(ALLOWED_MIME_TYPES).flat().join(',');
+
+// Longest side of generated image thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export const attachmentKind = (mimeType: string): FileKind | null => {
+    const kinds = Object.keys(ALLOWED_MIME_TYPES) as FileKind[];
+    return kinds.find(kind => ALLOWED_MIME_TYPES[kind].includes(mimeType)) || null;
+};
+
+// Why a file can't be sent, or null if it can
+export const rejectAttachment = (file: File): ChatErrorReason | null => {
+    if (!attachmentKind(file.type)) return 'unsupported_type';
+    if (file.size > MAX_ATTACHMENT_BYTES) return 'too_large';
+    return null;
+};
+
+// Downscaled JPEG of an image, plus its original size. Images the browser can't decode go without.
+const createThumbnail = async (file: File): Promise<Pick<Attachment, 'width' | 'height' | 'thumbnail'>> => {
+    try {
+        const bitmap = await createImageBitmap(file);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+        const context = canvas.getContext('2d');
+        if (!context) return { width: bitmap.width, height: bitmap.height };
+        // JPEG has no transparency
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        const dimensions = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        return { ...dimensions, thumbnail: canvas.toDataURL('image/jpeg', 0.7) };
+    } catch (err) {
+        console.warn("Failed to create thumbnail", err);
+        return {};
+    }
+};
+
+// Everything about a file except where it ends up in Storage. Call after rejectAttachment.
+export const describeAttachment = async (file: File): Promise<Omit<Attachment, 'url' | 'storagePath'>> => {
+    const kind = attachmentKind(file.type) || 'file';
+    return {
+        kind,
+        name: file.name,
+        mimeType: file.type,
+        size: file.size,
+        ...(kind === 'image' ? await createThumbnail(file) : {})
+    };
+};
+
+// Slashes would add path segments in Storage
+export const storageFileName = (name: string) => name.replace(/[/\\]/g, '_') || 'file';
+
+// Chat list preview; functions/src/fanout.ts writes the same labels
+export const attachmentLabel = (attachment: Pick<Attachment, 'kind' | 'name'>) => {
+    if (attachment.kind === 'image') return '📷 Photo';
+    if (attachment.kind === 'video') return '🎥 Video';
+    if (attachment.kind === 'audio') return '🎤 Voice message';
+    return `📎 ${attachment.name}`;
+};
+
+// One-line stand-in for a message in replies, forwards and confirmations
+export const messageSummary = (message: Pick<Message, 'text' | 'attachment'>) =>
+    message.attachment ? attachmentLabel(message.attachment) : message.text;
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
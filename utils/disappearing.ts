@@ -0,0 +1,24 @@
+// Disappearing-message timers, in minutes. null means off.
+export const DISAPPEARING_TIMER_OPTIONS = [1, 5, 60, 1440, 10080];
+
+export const formatTimer = (minutes: number) => {
+    if (minutes % 10080 === 0) return `${minutes / 10080} week${minutes === 10080 ? '' : 's'}`;
+    if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Compact form for the badge on the timer button
+export const formatTimerShort = (minutes: number) => {
+    if (minutes % 10080 === 0) return `${minutes / 10080}w`;
+    if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+    if (minutes % 60 === 0) return `${minutes / 60}h`;
+    return `${minutes}m`;
+};
+
+// Text of the system notice; the UI prefixes it with who made the change
+export const describeTimerChange = (minutes: number | null) =>
+    minutes ? `set disappearing messages to ${formatTimer(minutes)}` : 'turned off disappearing messages';
+
+export const expiryFor = (minutes: number | null | undefined, from = new Date()) =>
+    minutes ? new Date(from.getTime() + minutes * 60000) : undefined;
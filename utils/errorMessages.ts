@@ -0,0 +1,110 @@
+import { ChatError, ChatErrorCode, ChatErrorReason } from '../services/chatErrors';
+import { MAX_ATTACHMENT_BYTES } from './attachments';
+
+type Locale = 'en' | 'uk';
+
+const MAX_ATTACHMENT_MB = MAX_ATTACHMENT_BYTES / (1024 * 1024);
+
+interface ErrorMessages {
+    codes: Record<ChatErrorCode, string>;
+    reasons: Partial<Record<ChatErrorReason, string>>;
+    // TIME_WINDOW_EXPIRED, with the window spelled out
+    editWindow: (window: string) => string;
+    deleteWindow: (window: string) => string;
+    minutes: (n: number) => string;
+    hours: (n: number) => string;
+}
+
+// Ukrainian plural forms: 1 хвилина, 2-4 хвилини, 5+ хвилин (11-14 always take the last form)
+const ukPlural = (n: number, one: string, few: string, many: string) => {
+    const mod10 = n % 10;
+    const mod100 = n % 100;
+    if (mod10 === 1 && mod100 !== 11) return one;
+    if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return few;
+    return many;
+};
+
+const MESSAGES: Record<Locale, ErrorMessages> = {
+    en: {
+        codes: {
+            NOT_AUTHENTICATED: 'Your session has ended. Sign in again to continue.',
+            NOT_FOUND: "This item no longer exists. Refresh and try again.",
+            PERMISSION_DENIED: "You don't have permission to do that.",
+            TIME_WINDOW_EXPIRED: 'This can no longer be changed.',
+            RATE_LIMITED: 'Too many requests. Wait a moment and try again.',
+            NETWORK: "You're offline or the connection dropped. Check your network and try again.",
+            ENCRYPTION: 'Encryption failed, so nothing was sent. Regenerate your keys in Privacy settings and try again.',
+            ATTACHMENT_REJECTED: "This file can't be sent.",
+            CANCELLED: 'Cancelled.',
+            UNKNOWN: 'Something went wrong. Please try again.'
+        },
+        reasons: {
+            chat: 'This chat no longer exists or you were removed from it.',
+            message: 'This message was deleted.',
+            admin_only: 'Only group admins can do that.',
+            group_only: 'This is only available in group chats.',
+            last_admin: 'Make someone else an admin first — a group needs at least one.',
+            own_messages_only: 'You can only change your own messages.',
+            microphone: 'Allow microphone access in your browser to record voice messages.',
+            // TIME_WINDOW_EXPIRED without a window: the chat doesn't allow it at all
+            edit: 'Editing messages is turned off in this chat.',
+            delete: 'Deleting messages for everyone is turned off in this chat.',
+            too_large: `Files can be up to ${MAX_ATTACHMENT_MB} MB.`,
+            unsupported_type: 'Only photos, videos, PDFs, Office documents, text files and ZIP archives can be sent.',
+            forward: "Attachments can't be forwarded yet."
+        },
+        editWindow: (window) => `Messages can only be edited within ${window} of sending.`,
+        deleteWindow: (window) => `Messages can only be deleted within ${window} of sending.`,
+        minutes: (n) => `${n} minute${n === 1 ? '' : 's'}`,
+        hours: (n) => `${n} hour${n === 1 ? '' : 's'}`
+    },
+    uk: {
+        codes: {
+            NOT_AUTHENTICATED: 'Сеанс завершився. Увійдіть знову, щоб продовжити.',
+            NOT_FOUND: 'Цього вже не існує. Оновіть сторінку та спробуйте ще раз.',
+            PERMISSION_DENIED: 'У вас немає прав на цю дію.',
+            TIME_WINDOW_EXPIRED: 'Це вже не можна змінити.',
+            RATE_LIMITED: 'Забагато запитів. Зачекайте трохи та спробуйте ще раз.',
+            NETWORK: "Немає з'єднання. Перевірте мережу та спробуйте ще раз.",
+            ENCRYPTION: 'Не вдалося зашифрувати, тому нічого не надіслано. Згенеруйте ключі заново в налаштуваннях приватності.',
+            ATTACHMENT_REJECTED: 'Цей файл не можна надіслати.',
+            CANCELLED: 'Скасовано.',
+            UNKNOWN: 'Щось пішло не так. Спробуйте ще раз.'
+        },
+        reasons: {
+            chat: 'Цей чат більше не існує або вас із нього видалили.',
+            message: 'Це повідомлення видалено.',
+            admin_only: 'Це можуть робити лише адміністратори групи.',
+            group_only: 'Це доступно лише в групових чатах.',
+            last_admin: 'Спершу призначте іншого адміністратора — у групі має бути хоча б один.',
+            own_messages_only: 'Змінювати можна лише власні повідомлення.',
+            microphone: 'Дозвольте браузеру доступ до мікрофона, щоб записувати голосові повідомлення.',
+            edit: 'Редагування повідомлень у цьому чаті вимкнено.',
+            delete: 'Видалення повідомлень для всіх у цьому чаті вимкнено.',
+            too_large: `Розмір файлу — до ${MAX_ATTACHMENT_MB} МБ.`,
+            unsupported_type: 'Надсилати можна лише фото, відео, PDF, документи Office, текстові файли та ZIP-архіви.',
+            forward: 'Вкладення поки не можна пересилати.'
+        },
+        editWindow: (window) => `Повідомлення можна редагувати лише протягом ${window} після надсилання.`,
+        deleteWindow: (window) => `Повідомлення можна видалити лише протягом ${window} після надсилання.`,
+        minutes: (n) => `${n} ${ukPlural(n, 'хвилини', 'хвилин', 'хвилин')}`,
+        hours: (n) => `${n} ${ukPlural(n, 'години', 'годин', 'годин')}`
+    }
+};
+
+const currentLocale = (): Locale =>
+    typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('uk') ? 'uk' : 'en';
+
+// User-facing text for a failed action, in the browser's language
+export const describeError = (error: ChatError, locale: Locale = currentLocale()): string => {
+    const messages = MESSAGES[locale];
+
+    if (error.code === 'TIME_WINDOW_EXPIRED' && error.windowMinutes) {
+        const minutes = error.windowMinutes;
+        const window = minutes % 60 === 0 ? messages.hours(minutes / 60) : messages.minutes(minutes);
+        if (error.reason === 'edit') return messages.editWindow(window);
+        if (error.reason === 'delete') return messages.deleteWindow(window);
+    }
+
+    return (error.reason && messages.reasons[error.reason]) || messages.codes[error.code];
+};
@@ -0,0 +1,20 @@
+import { Chat, Message, UserChat } from '../types';
+
+// What one user removed from their own view with "Delete for me"
+export type HiddenMessages = Pick<UserChat, 'hiddenMessageIds' | 'clearedAt'>;
+
+export const NOTHING_HIDDEN: HiddenMessages = { hiddenMessageIds: [], clearedAt: null };
+
+export const isHidden = (message: Message, hidden: HiddenMessages) =>
+    hidden.hiddenMessageIds.includes(message.messageId)
+    || (!!hidden.clearedAt && new Date(message.createdAt).getTime() <= hidden.clearedAt.getTime());
+
+export const withoutHidden = (messages: Message[], hidden: HiddenMessages) =>
+    messages.filter(m => !isHidden(m, hidden));
+
+// The chat list preview as this user sees it: empty after clearing history, a tombstone for a hidden last message
+export const visiblePreview = (chat: Pick<Chat, 'lastMessage' | 'lastMessageAt' | 'lastMessageId'>, hidden: HiddenMessages) => {
+    if (hidden.clearedAt && new Date(chat.lastMessageAt).getTime() <= hidden.clearedAt.getTime()) return '';
+    if (chat.lastMessageId && hidden.hiddenMessageIds.includes(chat.lastMessageId)) return 'Message deleted';
+    return chat.lastMessage;
+};
@@ -0,0 +1,219 @@
+/**
+ * Small syntax highlighter for fenced code blocks. Each language is a list of sticky regexes tried in order at
+ * the current position, plus word lists; it's a tokenizer, not a parser, which is plenty for chat snippets.
+ * Supports TypeScript/JavaScript, JSON, shell, SQL and Python; other languages come back as plain text.
+ */
+
+export type TokenType =
+    | 'plain' | 'keyword' | 'literal' | 'string' | 'number' | 'comment'
+    | 'function' | 'type' | 'variable' | 'property' | 'operator';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+}
+
+export type Language = 'typescript' | 'javascript' | 'json' | 'shell' | 'sql' | 'python';
+
+const ALIASES: Record<string, Language> = {
+    ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', javascript: 'javascript',
+    json: 'json', jsonc: 'json',
+    sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', console: 'shell',
+    sql: 'sql', psql: 'sql', mysql: 'sql', sqlite: 'sql',
+    py: 'python', python: 'python', python3: 'python'
+};
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+    typescript: 'TypeScript',
+    javascript: 'JavaScript',
+    json: 'JSON',
+    shell: 'Shell',
+    sql: 'SQL',
+    python: 'Python'
+};
+
+export const resolveLanguage = (tag: string): Language | null => ALIASES[tag.toLowerCase()] || null;
+
+// Longer snippets are shown without colours rather than slowing the chat down
+const MAX_HIGHLIGHT_LENGTH = 20000;
+
+interface Grammar {
+    // Tried in order before words; the first match wins
+    rules: [TokenType, RegExp][];
+    word: RegExp;
+    keywords: Set<string>;
+    literals: Set<string>;
+    ignoreCase?: boolean;
+    // Extra word rules, given the previous word and the text right before and after this one
+    classify?: (word: string, previousWord: string, before: string, after: string) => TokenType | null;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS_KEYWORDS = words(
+    'as async await break case catch class const continue debugger default delete do else enum export extends ' +
+    'finally for from function get if implements import in instanceof interface let new of return set static ' +
+    'super switch this throw try typeof var void while with yield'
+);
+const TS_KEYWORDS = new Set([
+    ...JS_KEYWORDS,
+    ...words('abstract any boolean declare infer is keyof namespace never number object private protected public readonly satisfies string symbol type unique unknown')
+]);
+
+const jsGrammar = (keywords: Set<string>): Grammar => ({
+    rules: [
+        ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+        ['string', /`(?:\\[\s\S]|[^\\`])*`?|'(?:\\.|[^\\'\n])*'?|"(?:\\.|[^\\"\n])*"?/y],
+        ['number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?n?)/y],
+        ['operator', /=>|[-+*/%=&|^!<>?~]+/y]
+    ],
+    word: /[A-Za-z_$][\w$]*/y,
+    keywords,
+    literals: words('true false null undefined NaN Infinity'),
+    classify: (word, previousWord) => {
+        if (previousWord === 'function') return 'function';
+        if (['class', 'interface', 'type', 'enum', 'extends', 'implements', 'new'].includes(previousWord)) return 'type';
+        // PascalCase names are usually classes and types
+        return /^[A-Z][a-z]/.test(word) ? 'type' : null;
+    }
+});
+
+const GRAMMARS: Record<Language, Grammar> = {
+    typescript: jsGrammar(TS_KEYWORDS),
+    javascript: jsGrammar(JS_KEYWORDS),
+
+    json: {
+        rules: [
+            // Keys are strings followed by a colon
+            ['property', /"(?:\\.|[^\\"\n])*"(?=\s*:)/y],
+            ['string', /"(?:\\.|[^\\"\n])*"?/y],
+            ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+            ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y]
+        ],
+        word: /[A-Za-z_]\w*/y,
+        keywords: new Set(),
+        literals: words('true false null')
+    },
+
+    shell: {
+        rules: [
+            // # only starts a comment at the beginning of a word: "echo a#b" has none
+            ['comment', /(?<![^\s;|&(])#[^\n]*/y],
+            ['string', /'[^']*'?|"(?:\\[\s\S]|[^\\"])*"?/y],
+            ['variable', /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[0-9@#?$!*-])/y],
+            ['property', /(?<=\s)--?[A-Za-z][\w-]*/y],
+            ['number', /\b\d+\b/y],
+            ['operator', /&&|\|\||[|&;<>]+/y]
+        ],
+        word: /[A-Za-z_][\w.-]*/y,
+        keywords: words('if then else elif fi for while until do done case esac in function select return export local readonly'),
+        literals: words('true false'),
+        // The first word of each command: "git", "npm", "sudo"
+        classify: (_word, _previousWord, before, after) =>
+            /(?:^|[\n;|&(]|\$\()\s*(?:sudo\s+)?$/.test(before) && !after.startsWith('=') ? 'function' : null
+    },
+
+    sql: {
+        rules: [
+            ['comment', /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+            ['string', /'(?:''|[^'])*'?/y],
+            // Quoted identifiers
+            ['property', /"(?:""|[^"])*"?|`[^`]*`?/y],
+            ['variable', /[:@$]\w+|\?/y],
+            ['number', /\d+(?:\.\d+)?/y],
+            ['operator', /[-+*/%=<>!|]+/y]
+        ],
+        word: /[A-Za-z_][\w$]*/y,
+        keywords: words(
+            'add all alter and as asc begin between by case cascade check column commit constraint create cross ' +
+            'database default delete desc distinct drop else end exists foreign from full group having if in index ' +
+            'inner insert intersect into is join key left like limit not null offset on or order outer primary ' +
+            'references returning right rollback select set table then transaction union unique update using values ' +
+            'view when where with'
+        ),
+        literals: words('true false null'),
+        ignoreCase: true
+    },
+
+    python: {
+        rules: [
+            ['comment', /#[^\n]*/y],
+            // String prefixes (f, r, b, rb...) belong to the string
+            ['string', /(?:[rRbBfFuU]{1,2})?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^\\"\n])*"?|'(?:\\.|[^\\'\n])*'?)/y],
+            ['function', /@[\w.]+/y],
+            ['number', /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?j?)/y],
+            ['operator', /[-+*/%=&|^!<>~]+|:=/y]
+        ],
+        word: /[A-Za-z_]\w*/y,
+        keywords: words(
+            'and as assert async await break class continue def del elif else except finally for from global if ' +
+            'import in is lambda match nonlocal not or pass raise return try while with yield'
+        ),
+        literals: words('True False None self'),
+        classify: (word, previousWord) => {
+            if (previousWord === 'def') return 'function';
+            if (previousWord === 'class') return 'type';
+            return /^[A-Z][a-z]/.test(word) ? 'type' : null;
+        }
+    }
+};
+
+const classifyWord = (grammar: Grammar, word: string, previousWord: string, before: string, after: string): TokenType => {
+    const key = grammar.ignoreCase ? word.toLowerCase() : word;
+    if (grammar.keywords.has(key)) return 'keyword';
+    if (grammar.literals.has(key)) return 'literal';
+    const custom = grammar.classify?.(word, previousWord, before, after);
+    if (custom) return custom;
+    return /^\s*\(/.test(after) ? 'function' : 'plain';
+};
+
+export const highlight = (code: string, language: Language | null): Token[] => {
+    if (!language || code.length > MAX_HIGHLIGHT_LENGTH) return [{ type: 'plain', text: code }];
+
+    const grammar = GRAMMARS[language];
+    const tokens: Token[] = [];
+    let previousWord = '';
+    let pos = 0;
+
+    const push = (type: TokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last && last.type === type && type === 'plain') last.text += text;
+        else tokens.push({ type, text });
+    };
+
+    const matchAt = (pattern: RegExp) => {
+        pattern.lastIndex = pos;
+        const match = pattern.exec(code);
+        return match && match[0] ? match[0] : null;
+    };
+
+    outer: while (pos < code.length) {
+        for (const [type, pattern] of grammar.rules) {
+            const text = matchAt(pattern);
+            if (text) {
+                push(type, text);
+                pos += text.length;
+                continue outer;
+            }
+        }
+
+        const word = matchAt(grammar.word);
+        if (word) {
+            const before = code.slice(Math.max(0, code.lastIndexOf('\n', pos - 1)), pos);
+            const after = code.slice(pos + word.length, pos + word.length + 40);
+            push(classifyWord(grammar, word, previousWord, before, after), word);
+            previousWord = word;
+            pos += word.length;
+            continue;
+        }
+
+        const char = code[pos];
+        // Punctuation between words resets the "previous word", whitespace doesn't
+        if (!/\s/.test(char)) previousWord = '';
+        push('plain', char);
+        pos++;
+    }
+
+    return tokens;
+};
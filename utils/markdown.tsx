@@ -1,27 +1,113 @@
+import React from 'react';
+import clsx from 'clsx';
+import { Block, Inline, parseMarkdown } from './markdownParser';
+import CodeBlock from '../components/CodeBlock';
 
-export const parseMarkdown = (text: string) => {
+// External links never get the opener or a referrer, and aren't endorsed for crawlers
+const LINK_REL = 'noopener noreferrer nofollow';
+
+const renderInlines = (nodes: Inline[], linkable: boolean): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.type) {
+        case 'text':
+            return node.text;
+        case 'code':
+            return <code key={i} className="bg-black/20 dark:bg-white/10 px-1 rounded font-mono text-[13px]">{node.text}</code>;
+        case 'strong':
+            return <strong key={i} className="font-extrabold">{renderInlines(node.children, linkable)}</strong>;
+        case 'em':
+            return <em key={i} className="italic">{renderInlines(node.children, linkable)}</em>;
+        case 'del':
+            return <del key={i} className="opacity-50 line-through">{renderInlines(node.children, linkable)}</del>;
+        case 'link':
+            // Previews sit inside buttons, where an anchor would be invalid and steal the click
+            return linkable ? (
+                <a
+                    key={i}
+                    href={node.href}
+                    target={node.href.startsWith('http') ? '_blank' : undefined}
+                    rel={LINK_REL}
+                    className="underline underline-offset-2 break-all"
+                >
+                    {renderInlines(node.children, linkable)}
+                </a>
+            ) : (
+                <span key={i} className="underline underline-offset-2">{renderInlines(node.children, linkable)}</span>
+            );
+    }
+});
+
+// Parsed messages by text, oldest first. The chat re-renders every bubble on each tick and whenever one message
+// changes; a message's AST only changes with its text.
+const PARSE_CACHE_SIZE = 500;
+const parsed = new Map<string, Block[]>();
+
+const parseCached = (text: string): Block[] => {
+    let blocks = parsed.get(text);
+    if (!blocks) {
+        blocks = parseMarkdown(text);
+        if (parsed.size >= PARSE_CACHE_SIZE) parsed.delete(parsed.keys().next().value!);
+        parsed.set(text, blocks);
+    }
+    return blocks;
+};
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-base', 'text-[15px]', 'text-[15px]'];
+
+const renderBlocks = (blocks: Block[]): React.ReactNode[] => blocks.map((block, i) => {
+    switch (block.type) {
+        case 'paragraph':
+            return <p key={i}>{renderInlines(block.children, true)}</p>;
+        case 'heading': {
+            const Tag = `h${block.level}` as 'h1';
+            return <Tag key={i} className={clsx("font-bold leading-snug", HEADING_CLASSES[block.level - 1])}>{renderInlines(block.children, true)}</Tag>;
+        }
+        case 'code':
+            return <CodeBlock key={i} code={block.text} lang={block.lang} />;
+        case 'blockquote':
+            return <blockquote key={i} className="pl-3 border-l-2 border-current opacity-80 space-y-2">{renderBlocks(block.children)}</blockquote>;
+        case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+                <ListTag
+                    key={i}
+                    start={block.ordered && block.start !== 1 ? block.start : undefined}
+                    className={clsx("pl-5 space-y-0.5", block.ordered ? "list-decimal" : "list-disc")}
+                >
+                    {block.items.map((item, j) => <li key={j} className="space-y-1">{renderBlocks(item)}</li>)}
+                </ListTag>
+            );
+        }
+        case 'rule':
+            return <hr key={i} className="border-current opacity-20" />;
+    }
+});
+
+// Message body. Expects a whitespace-pre-wrap container, so line breaks inside paragraphs show as typed.
+export const renderMarkdown = (text: string) => {
     if (!text) return text;
+    return <div className="space-y-2">{renderBlocks(parseCached(text))}</div>;
+};
 
-    // We'll replace with placeholders and then map to components
-    // To keep it simple for this task, we'll use a simpler approach using split/map
-
-    return text.split('\n').map((line, i) => (
-        <div key={i}>
-            {line.split(/(\*\*.*?\*\*|\*.*?\*|`.*?`|~~.*?~~)/).map((part, j) => {
-                if (part.startsWith('**') && part.endsWith('**')) {
-                    return <strong key={j} className="font-extrabold">{part.slice(2, -2)}</strong>;
-                }
-                if (part.startsWith('*') && part.endsWith('*')) {
-                    return <em key={j} className="italic text-slate-200 dark:text-slate-300">{part.slice(1, -1)}</em>;
-                }
-                if (part.startsWith('`') && part.endsWith('`')) {
-                    return <code key={j} className="bg-black/20 dark:bg-white/10 px-1 rounded font-mono text-[13px]">{part.slice(1, -1)}</code>;
-                }
-                if (part.startsWith('~~') && part.endsWith('~~')) {
-                    return <del key={j} className="opacity-50 line-through">{part.slice(2, -2)}</del>;
-                }
-                return part;
-            })}
-        </div>
-    ));
+const flattenBlocks = (blocks: Block[]): Inline[] => blocks.flatMap((block, i): Inline[] => {
+    const separator: Inline[] = i > 0 ? [{ type: 'text', text: ' ' }] : [];
+    switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+            return [...separator, ...block.children];
+        case 'code':
+            return [...separator, { type: 'code', text: block.text.replace(/\s*\n\s*/g, ' ') }];
+        case 'blockquote':
+            return [...separator, ...flattenBlocks(block.children)];
+        case 'list':
+            return [...separator, ...flattenBlocks(block.items.flat())];
+        case 'rule':
+            return [];
+    }
+});
+
+// One-line version for reply quotes and search results: formatting kept, blocks run together,
+// links shown but not clickable. Line breaks collapse in the (non pre-wrap) preview elements.
+export const renderMarkdownInline = (text: string) => {
+    if (!text) return text;
+    return renderInlines(flattenBlocks(parseCached(text)), false);
 };
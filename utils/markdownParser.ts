@@ -0,0 +1,660 @@
+/**
+ * Markdown for chat messages: a CommonMark subset parsed into a small AST that utils/markdown.tsx renders.
+ *
+ * Blocks: paragraphs, ATX headings (#), fenced code (``` and ~~~), blockquotes, bullet and ordered lists,
+ * thematic breaks. Inlines: emphasis (*, _), strong, ~~strikethrough~~, `code spans`, [links](url), <autolinks>,
+ * backslash escapes, plus bare URLs, emails and phone numbers. Nothing here ever produces raw HTML.
+ *
+ * Deliberate differences from CommonMark, because chat text isn't a document:
+ * - no indented code blocks, setext headings, reference links, images, raw HTML or entities; they stay plain text
+ * - `*` follows the same intraword rule as `_`, so "2*3*4" stays literal
+ * - line breaks inside a paragraph are kept as typed
+ */
+
+export type Inline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'em' | 'strong' | 'del'; children: Inline[] }
+    | { type: 'link'; href: string; children: Inline[] };
+
+export type Block =
+    | { type: 'paragraph'; children: Inline[] }
+    | { type: 'heading'; level: number; children: Inline[] }
+    | { type: 'code'; lang: string; text: string }
+    | { type: 'blockquote'; children: Block[] }
+    | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+    | { type: 'rule' };
+
+// Deeper nesting is left as plain text instead of recursing further
+const MAX_DEPTH = 16;
+// Parentheses nested deeper than this end a link destination, like in cmark; otherwise "[](" typed over and over
+// makes every bracket scan the rest of the message
+const MAX_LINK_PARENS = 32;
+
+// ---------- Blocks ----------
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})[ \t]*(\S*).*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+interface ListMarker {
+    ordered: boolean;
+    // '-', '+', '*' for bullets; '.' or ')' for ordered lists
+    delimiter: string;
+    start: number;
+    // Columns up to the item's content; continuation lines indented this far belong to the item
+    contentIndent: number;
+    firstLine: string;
+}
+
+const matchListItem = (line: string): ListMarker | null => {
+    const match = LIST_ITEM.exec(line);
+    if (!match) return null;
+    const [, indent, marker, spacing = '', rest = ''] = match;
+    const ordered = /\d/.test(marker[0]);
+    // Five or more spaces after the marker: the content starts after one of them
+    const gap = rest && spacing.length <= 4 ? spacing.length : 1;
+    return {
+        ordered,
+        delimiter: ordered ? marker[marker.length - 1] : marker,
+        start: ordered ? parseInt(marker, 10) : 1,
+        contentIndent: indent.length + marker.length + gap,
+        firstLine: rest ? ' '.repeat(Math.max(0, spacing.length - gap)) + rest : ''
+    };
+};
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (line: string) => {
+    if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line)) return true;
+    const item = matchListItem(line);
+    // As in CommonMark, "1986. A great year" in running text doesn't start a list; only "1." does
+    return !!item && item.firstLine.trim() !== '' && (!item.ordered || item.start === 1);
+};
+
+const stripIndent = (line: string, columns: number) => {
+    let i = 0;
+    while (i < columns && line[i] === ' ') i++;
+    return line.slice(i);
+};
+
+const parseBlocks = (lines: string[], depth: number): Block[] => {
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (isBlank(line)) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        // Backtick fences can't have backticks in the info string, so "```code```" on one line is a code span
+        if (fence && !(fence[2][0] === '`' && line.slice(fence[1].length + fence[2].length).includes('`'))) {
+            const [, indent, marker, lang] = fence;
+            const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+            const body: string[] = [];
+            i++;
+            // An unclosed fence runs to the end of the message
+            while (i < lines.length && !closing.test(lines[i])) {
+                body.push(stripIndent(lines[i], indent.length));
+                i++;
+            }
+            i++;
+            blocks.push({ type: 'code', lang: lang.toLowerCase(), text: body.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, children: parseInlines(heading[2] || '', depth) });
+            i++;
+            continue;
+        }
+
+        // Before lists: "* * *" is a rule, not a list
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line) && depth < MAX_DEPTH) {
+            const quoted: string[] = [];
+            let lazy = false;
+            while (i < lines.length) {
+                if (QUOTE.test(lines[i])) {
+                    quoted.push(lines[i].replace(QUOTE, ''));
+                    lazy = !isBlank(quoted[quoted.length - 1]);
+                } else if (lazy && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+                    // Lazy continuation of a quoted paragraph
+                    quoted.push(lines[i]);
+                } else {
+                    break;
+                }
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+            continue;
+        }
+
+        const first = matchListItem(line);
+        if (first && depth < MAX_DEPTH) {
+            const items: Block[][] = [];
+            let marker: ListMarker | null = first;
+
+            while (marker) {
+                const itemLines = [marker.firstLine];
+                let previousBlank = marker.firstLine.trim() === '';
+                i++;
+
+                while (i < lines.length) {
+                    const next = lines[i];
+                    if (isBlank(next)) {
+                        itemLines.push('');
+                        previousBlank = true;
+                    } else if (next.length - next.trimStart().length >= marker.contentIndent) {
+                        itemLines.push(stripIndent(next, marker.contentIndent));
+                        previousBlank = false;
+                    } else if (!previousBlank && !interruptsParagraph(next) && !matchListItem(next)) {
+                        // Lazy continuation of the item's last paragraph
+                        itemLines.push(next);
+                    } else {
+                        break;
+                    }
+                    i++;
+                }
+
+                items.push(parseBlocks(itemLines, depth + 1));
+
+                const candidate: ListMarker | null = i < lines.length ? matchListItem(lines[i]) : null;
+                // A different bullet or delimiter starts a new list; a rule ends it
+                marker = candidate && !RULE.test(lines[i]) && candidate.ordered === first.ordered && candidate.delimiter === first.delimiter
+                    ? candidate
+                    : null;
+            }
+
+            blocks.push({ type: 'list', ordered: first.ordered, start: first.start, items });
+            continue;
+        }
+
+        const paragraph = [line.trim()];
+        i++;
+        while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i])) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInlines(paragraph.join('\n'), depth) });
+    }
+
+    return blocks;
+};
+
+// ---------- Inlines ----------
+
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+const isWhitespace = (char: string) => char === '' || /\s/.test(char);
+const isPunctuation = (char: string) => PUNCTUATION.test(char);
+
+interface TextNode {
+    type: 'text';
+    text: string;
+}
+
+// Inlines are collected in a linked list while parsing, and delimiters are a linked stack, as in cmark: matching
+// emphasis folds a run of them into one node, which in an array would shift everything after it
+interface Slot {
+    node: Inline;
+    prev: Slot | null;
+    next: Slot | null;
+}
+
+interface InlineList {
+    // A sentinel, so every real slot has a previous one
+    head: Slot;
+    tail: Slot;
+}
+
+interface Delimiter {
+    slot: Slot;
+    node: TextNode;
+    char: '*' | '_' | '~';
+    length: number;
+    originalLength: number;
+    canOpen: boolean;
+    canClose: boolean;
+    prev: Delimiter | null;
+    next: Delimiter | null;
+}
+
+interface DelimiterStack {
+    top: Delimiter | null;
+}
+
+interface Bracket {
+    slot: Slot;
+    // Delimiters pushed after this one belong to the link text
+    delimiterBottom: Delimiter | null;
+    active: boolean;
+}
+
+const appendSlot = (list: InlineList, node: Inline): Slot => {
+    const slot: Slot = { node, prev: list.tail, next: null };
+    list.tail.next = slot;
+    list.tail = slot;
+    return slot;
+};
+
+const unlinkSlot = (list: InlineList, slot: Slot) => {
+    slot.prev!.next = slot.next;
+    if (slot.next) slot.next.prev = slot.prev;
+    else list.tail = slot.prev!;
+};
+
+// The nodes after `from` and before `to` (or up to the end)
+const nodesBetween = (from: Slot, to: Slot | null): Inline[] => {
+    const nodes: Inline[] = [];
+    for (let slot = from.next; slot && slot !== to; slot = slot.next) nodes.push(slot.node);
+    return nodes;
+};
+
+const removeDelimiter = (stack: DelimiterStack, delimiter: Delimiter) => {
+    if (delimiter.prev) delimiter.prev.next = delimiter.next;
+    if (delimiter.next) delimiter.next.prev = delimiter.prev;
+    else stack.top = delimiter.prev;
+};
+
+const SAFE_SCHEME = /^(?:https?:|mailto:|tel:)/i;
+
+// Only web, mail and phone links; anything else (javascript:, data:, relative paths) stays plain text
+export const safeHref = (url: string): string | null => {
+    const href = url.trim();
+    if (SAFE_SCHEME.test(href)) return href;
+    if (/^www\./i.test(href)) return `https://${href}`;
+    return null;
+};
+
+// "(url "title")" after a link's closing bracket. Returns the destination and where the link ends.
+const parseLinkTail = (text: string, pos: number): { destination: string; end: number } | null => {
+    if (text[pos] !== '(') return null;
+    let i = pos + 1;
+    const skipSpace = () => {
+        while (i < text.length && /[ \t\n]/.test(text[i])) i++;
+    };
+    skipSpace();
+
+    let destination = '';
+    if (text[i] === '<') {
+        // Stops at the next "<" or line break too, so the scan never runs past the next candidate
+        let close = i + 1;
+        while (close < text.length && !/[\n<>]/.test(text[close])) close++;
+        if (text[close] !== '>') return null;
+        destination = text.slice(i + 1, close);
+        i = close + 1;
+    } else {
+        let depth = 0;
+        const start = i;
+        while (i < text.length && !/[\s\x00-\x1f]/.test(text[i])) {
+            if (text[i] === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+                i += 2;
+                continue;
+            }
+            if (text[i] === '(' && ++depth > MAX_LINK_PARENS) return null;
+            if (text[i] === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            i++;
+        }
+        if (depth !== 0) return null;
+        destination = text.slice(start, i).replace(/\\([!-/:-@[-`{-~])/g, '$1');
+    }
+
+    const beforeTitle = i;
+    skipSpace();
+    const quote = text[i];
+    if (i > beforeTitle && (quote === '"' || quote === "'" || quote === '(')) {
+        const closeChar = quote === '(' ? ')' : quote;
+        let j = i + 1;
+        // A "(title)" can't contain an unescaped "("
+        while (j < text.length && text[j] !== closeChar && !(quote === '(' && text[j] === '(')) j += text[j] === '\\' ? 2 : 1;
+        if (j >= text.length || text[j] !== closeChar) return null;
+        // Titles are parsed so they don't end up in the link text, but chat doesn't show them
+        i = j + 1;
+        skipSpace();
+    }
+
+    return text[i] === ')' ? { destination, end: i + 1 } : null;
+};
+
+// Sticky: matched at the "<" without copying the rest of the text
+const AUTOLINK = /<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/y;
+const EMAIL_AUTOLINK = /<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)*)>/y;
+
+// CommonMark's "process emphasis": match closers with the nearest compatible opener above stackBottom
+const processEmphasis = (list: InlineList, stack: DelimiterStack, stackBottom: Delimiter | null) => {
+    let closer = stack.top === stackBottom ? null : stack.top;
+    while (closer && closer.prev !== stackBottom) closer = closer.prev;
+    // Per kind of closer, the delimiter below which a search already came up empty (cmark's openers_bottom).
+    // Without it, "*a *a *a … a_ a_ a_" would rescan every opener for every closer.
+    const openersBottom = new Map<string, Delimiter | null>();
+
+    while (closer) {
+        if (!closer.canClose) {
+            closer = closer.next;
+            continue;
+        }
+
+        const kind = `${closer.char}${closer.canOpen}${closer.originalLength % 3}`;
+        const bottom = openersBottom.get(kind);
+        let opener = closer.prev;
+        while (opener && opener !== stackBottom && opener !== bottom) {
+            if (opener.char === closer.char && opener.canOpen) {
+                // Rule of three: "*foo**bar*" isn't split up oddly
+                const bothSides = opener.canClose || closer.canOpen;
+                if (!(bothSides && (opener.originalLength + closer.originalLength) % 3 === 0
+                    && !(opener.originalLength % 3 === 0 && closer.originalLength % 3 === 0))) break;
+            }
+            opener = opener.prev;
+        }
+
+        if (!opener || opener === stackBottom || opener === bottom) {
+            openersBottom.set(kind, closer.prev);
+            const next: Delimiter | null = closer.next;
+            // Can't close anything; if it can't open either it's just text
+            if (!closer.canOpen) removeDelimiter(stack, closer);
+            closer = next;
+            continue;
+        }
+
+        const used = closer.char === '~' ? 2 : opener.length >= 2 && closer.length >= 2 ? 2 : 1;
+        const type = closer.char === '~' ? 'del' : used === 2 ? 'strong' : 'em';
+
+        const wrapped: Slot = { node: { type, children: nodesBetween(opener.slot, closer.slot) }, prev: opener.slot, next: closer.slot };
+        opener.slot.next = wrapped;
+        closer.slot.prev = wrapped;
+
+        // Delimiters inside the new node can no longer match anything outside it
+        opener.next = closer;
+        closer.prev = opener;
+
+        opener.length -= used;
+        opener.node.text = opener.node.text.slice(used);
+        closer.length -= used;
+        closer.node.text = closer.node.text.slice(used);
+
+        if (opener.length === 0) {
+            unlinkSlot(list, opener.slot);
+            removeDelimiter(stack, opener);
+        }
+        if (closer.length === 0) {
+            unlinkSlot(list, closer.slot);
+            const next: Delimiter | null = closer.next;
+            removeDelimiter(stack, closer);
+            closer = next;
+        }
+    }
+
+    stack.top = stackBottom;
+    if (stackBottom) stackBottom.next = null;
+};
+
+const parseInlines = (text: string, depth: number): Inline[] => {
+    const head: Slot = { node: { type: 'text', text: '' }, prev: null, next: null };
+    const list: InlineList = { head, tail: head };
+    const stack: DelimiterStack = { top: null };
+    const brackets: Bracket[] = [];
+    let buffer = '';
+    let i = 0;
+
+    const pushText = (value: string) => {
+        buffer += value;
+    };
+    const flush = () => {
+        if (buffer) appendSlot(list, { type: 'text', text: buffer });
+        buffer = '';
+    };
+    const pushNode = (node: Inline) => {
+        flush();
+        return appendSlot(list, node);
+    };
+
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === '\\') {
+            const next = text[i + 1] || '';
+            if (ESCAPABLE.test(next)) {
+                pushText(next);
+                i += 2;
+            } else if (next === '\n') {
+                // Hard line break; chat keeps every line break anyway
+                pushText('\n');
+                i += 2;
+            } else {
+                pushText('\\');
+                i++;
+            }
+            continue;
+        }
+
+        if (char === '`') {
+            let runEnd = i;
+            while (text[runEnd] === '`') runEnd++;
+            const fence = text.slice(i, runEnd);
+
+            // The closing run must be exactly as long as the opening one
+            let search = runEnd;
+            let close = -1;
+            while (search < text.length) {
+                const found = text.indexOf(fence, search);
+                if (found < 0) break;
+                let foundEnd = found + fence.length;
+                while (text[foundEnd] === '`') foundEnd++;
+                if (foundEnd - found === fence.length) {
+                    close = found;
+                    break;
+                }
+                search = foundEnd;
+            }
+
+            if (close < 0) {
+                pushText(fence);
+                i = runEnd;
+                continue;
+            }
+
+            let code = text.slice(runEnd, close).replace(/\n/g, ' ');
+            if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim()) code = code.slice(1, -1);
+            pushNode({ type: 'code', text: code });
+            i = close + fence.length;
+            continue;
+        }
+
+        if (char === '<') {
+            AUTOLINK.lastIndex = i;
+            EMAIL_AUTOLINK.lastIndex = i;
+            const autolink = AUTOLINK.exec(text);
+            const email = autolink ? null : EMAIL_AUTOLINK.exec(text);
+            const href = autolink ? safeHref(autolink[1]) : email ? `mailto:${email[1]}` : null;
+            const match = autolink || email;
+            if (match && href) {
+                pushNode({ type: 'link', href, children: [{ type: 'text', text: match[1] }] });
+                i += match[0].length;
+                continue;
+            }
+            pushText(char);
+            i++;
+            continue;
+        }
+
+        if (char === '*' || char === '_' || char === '~') {
+            let runEnd = i;
+            while (text[runEnd] === char) runEnd++;
+            const length = runEnd - i;
+            const before = text[i - 1] || '';
+            const after = text[runEnd] || '';
+
+            const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+            const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+            // Strikethrough is exactly two tildes; other tilde runs are text
+            const isDelimiter = char !== '~' || length === 2;
+            const node: TextNode = { type: 'text', text: text.slice(i, runEnd) };
+            const slot = pushNode(node);
+            if (isDelimiter) {
+                const delimiter: Delimiter = {
+                    slot,
+                    node,
+                    char,
+                    length,
+                    originalLength: length,
+                    canOpen: char === '~' ? leftFlanking : leftFlanking && (!rightFlanking || isPunctuation(before)),
+                    canClose: char === '~' ? rightFlanking : rightFlanking && (!leftFlanking || isPunctuation(after)),
+                    prev: stack.top,
+                    next: null
+                };
+                if (stack.top) stack.top.next = delimiter;
+                stack.top = delimiter;
+            }
+            i = runEnd;
+            continue;
+        }
+
+        if (char === '[') {
+            brackets.push({ slot: pushNode({ type: 'text', text: '[' }), delimiterBottom: stack.top, active: depth < MAX_DEPTH });
+            i++;
+            continue;
+        }
+
+        if (char === ']') {
+            const bracket = brackets.pop();
+            const tail = bracket?.active ? parseLinkTail(text, i + 1) : null;
+            const href = tail ? safeHref(tail.destination) : null;
+
+            if (!bracket || !tail || !href) {
+                pushText(']');
+                i++;
+                continue;
+            }
+
+            flush();
+            processEmphasis(list, stack, bracket.delimiterBottom);
+            bracket.slot.node = { type: 'link', href, children: nodesBetween(bracket.slot, null) };
+            bracket.slot.next = null;
+            list.tail = bracket.slot;
+            // No links inside links. Brackets below an inactive one are inactive already.
+            for (let j = brackets.length - 1; j >= 0 && brackets[j].active; j--) brackets[j].active = false;
+            i = tail.end;
+            continue;
+        }
+
+        pushText(char);
+        i++;
+    }
+
+    flush();
+    processEmphasis(list, stack, null);
+    return autolinkBare(mergeText(nodesBetween(head, null)));
+};
+
+// Emphasis leaves unmatched delimiters as separate text nodes; joining them lets URLs match across them
+const mergeText = (nodes: Inline[]): Inline[] => {
+    const merged: Inline[] = [];
+    for (const node of nodes) {
+        const last = merged[merged.length - 1];
+        if (node.type === 'text' && last?.type === 'text') {
+            merged[merged.length - 1] = { type: 'text', text: last.text + node.text };
+        } else if (node.type === 'text' && !node.text) {
+            continue;
+        } else if (node.type === 'em' || node.type === 'strong' || node.type === 'del') {
+            merged.push({ type: node.type, children: mergeText(node.children) });
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+};
+
+// ---------- Bare links ----------
+
+const BARE_LINK = new RegExp([
+    // URLs
+    /(?:https?:\/\/|www\.)[^\s<>]+/.source,
+    // Emails. Only tried at the start of a word, and the local part and domain labels stop at their maximum
+    // lengths (64 and 63): otherwise every letter of a long word starts a scan to its end
+    /(?<![\w.%+@\/-])[a-zA-Z0-9._%+-]{1,64}@[a-zA-Z0-9-]{1,63}(?:\.[a-zA-Z0-9-]{1,63})*\.[a-zA-Z]{2,}/.source,
+    // International phone numbers: +380 67 123 4567, +1 (555) 010-0199
+    /\+\d[\d ().-]{5,}\d/.source
+].join('|'), 'g');
+
+// Punctuation that ends a sentence rather than the link: "see https://example.com."
+const trimTrailing = (candidate: string) => {
+    let end = candidate.length;
+    // Unmatched closing parens up to `end`
+    let unbalanced = (candidate.match(/\)/g) || []).length - (candidate.match(/\(/g) || []).length;
+    while (end > 0) {
+        const last = candidate[end - 1];
+        if (/[.,:;!?'"*_~]/.test(last)) {
+            end--;
+        } else if (last === ')') {
+            // Keep a closing paren that has its opening one: https://en.wikipedia.org/wiki/Chat_(software)
+            if (unbalanced <= 0) break;
+            unbalanced--;
+            end--;
+        } else {
+            break;
+        }
+    }
+    return candidate.slice(0, end);
+};
+
+const bareHref = (match: string): string | null => {
+    if (/^(?:https?:\/\/|www\.)/i.test(match)) return safeHref(match);
+    if (match.includes('@')) return `mailto:${match}`;
+    const digits = match.replace(/\D/g, '');
+    // E.164 numbers have at most 15 digits; fewer than 8 is more likely a calculation than a phone number
+    return digits.length >= 8 && digits.length <= 15 ? `tel:+${digits}` : null;
+};
+
+const linkifyText = (text: string): Inline[] => {
+    const result: Inline[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(BARE_LINK)) {
+        const start = match.index ?? 0;
+        // Mid-word matches (foo+123..., abc.www.x) aren't links
+        if (start > 0 && /[\p{L}\p{N}_@.+/-]/u.test(text[start - 1])) continue;
+        const value = trimTrailing(match[0]);
+        const href = value ? bareHref(value) : null;
+        if (!href || start < last) continue;
+
+        if (start > last) result.push({ type: 'text', text: text.slice(last, start) });
+        result.push({ type: 'link', href, children: [{ type: 'text', text: value }] });
+        last = start + value.length;
+    }
+
+    if (last < text.length) result.push({ type: 'text', text: text.slice(last) });
+    return result;
+};
+
+const autolinkBare = (nodes: Inline[]): Inline[] => nodes.flatMap((node): Inline[] => {
+    if (node.type === 'text') return linkifyText(node.text);
+    if (node.type === 'em' || node.type === 'strong' || node.type === 'del') {
+        return [{ type: node.type, children: autolinkBare(node.children) }];
+    }
+    // Code spans and links are left alone
+    return [node];
+});
+
+// ---------- Entry points ----------
+
+export const parseMarkdown = (text: string): Block[] =>
+    parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), 0);
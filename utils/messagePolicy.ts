@@ -0,0 +1,41 @@
+import { Chat } from '../types';
+
+// How long after sending a message its sender may still edit it or delete it for everyone.
+// Windows are in minutes: null means no limit, 0 means not allowed at all.
+// Chats that never set a policy use the defaults; firestore.rules falls back to the same values.
+export interface MessagePolicy {
+    editWindowMinutes: number | null;
+    deleteWindowMinutes: number | null;
+}
+
+export const DEFAULT_MESSAGE_POLICY: MessagePolicy = {
+    editWindowMinutes: 15,
+    deleteWindowMinutes: 60
+};
+
+// Choices offered to group admins
+export const EDIT_WINDOW_OPTIONS: (number | null)[] = [0, 5, 15, 60, 1440, null];
+export const DELETE_WINDOW_OPTIONS: (number | null)[] = [60, 360, 1440, 10080, null];
+
+// Longest window that can be stored; anything longer is "no limit"
+export const MAX_WINDOW_MINUTES = 525600;
+
+export const policyOf = (chat: Pick<Chat, 'editWindowMinutes' | 'deleteWindowMinutes'> | null | undefined): MessagePolicy => ({
+    editWindowMinutes: chat?.editWindowMinutes !== undefined ? chat.editWindowMinutes : DEFAULT_MESSAGE_POLICY.editWindowMinutes,
+    deleteWindowMinutes: chat?.deleteWindowMinutes !== undefined ? chat.deleteWindowMinutes : DEFAULT_MESSAGE_POLICY.deleteWindowMinutes
+});
+
+export const isValidWindow = (minutes: number | null) =>
+    minutes === null || (Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_WINDOW_MINUTES);
+
+// Whether a message sent at `sentAt` is still inside the window
+export const isWithinWindow = (windowMinutes: number | null, sentAt: Date | string, now = Date.now()) =>
+    windowMinutes === null || (windowMinutes > 0 && now - new Date(sentAt).getTime() <= windowMinutes * 60000);
+
+export const formatWindow = (minutes: number | null) => {
+    if (minutes === null) return 'Any time';
+    if (minutes === 0) return 'Never';
+    if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
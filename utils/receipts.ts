@@ -0,0 +1,57 @@
+import { Chat, Message, MessageStatus, User } from '../types';
+
+const reached = (cursor: Date | undefined, message: Message) =>
+    !!cursor && cursor.getTime() >= new Date(message.createdAt).getTime();
+
+// Status of the current user's message as the sender sees it.
+// In groups it is the weakest state across all other members: read once everyone has read it.
+export const getReceiptStatus = (message: Message, chat: Chat | undefined, currentUserId: string): MessageStatus => {
+    if (message.status === MessageStatus.SENDING || message.status === MessageStatus.FAILED) return message.status;
+
+    const recipients = (chat?.participants || []).filter(uid => uid !== currentUserId);
+    if (recipients.length === 0) return message.status;
+
+    if (recipients.every(uid => reached(chat?.readUpTo?.[uid], message))) return MessageStatus.READ;
+    if (recipients.every(uid => reached(chat?.deliveredUpTo?.[uid], message) || reached(chat?.readUpTo?.[uid], message))) {
+        return MessageStatus.DELIVERED;
+    }
+    return MessageStatus.SENT;
+};
+
+export interface MemberReceipt {
+    user: User;
+    at?: Date; // When the member's cursor last moved past the message
+}
+
+export interface MessageReceipts {
+    read: MemberReceipt[];
+    delivered: MemberReceipt[];
+    pending: MemberReceipt[];
+}
+
+// Who has read / received a message, derived from the chat's per-member cursors
+export const getMessageReceipts = (message: Message, chat: Chat): MessageReceipts => {
+    const receipts: MessageReceipts = { read: [], delivered: [], pending: [] };
+
+    const members = chat.type === 'group' ? chat.groupMembers || [] : chat.otherUser ? [chat.otherUser] : [];
+    members
+        .filter(user => user.userId !== message.senderId)
+        .forEach(user => {
+            const readAt = chat.readUpTo?.[user.userId];
+            const deliveredAt = chat.deliveredUpTo?.[user.userId];
+
+            if (reached(readAt, message)) {
+                receipts.read.push({ user, at: readAt });
+            } else if (reached(deliveredAt, message)) {
+                receipts.delivered.push({ user, at: deliveredAt });
+            } else {
+                receipts.pending.push({ user });
+            }
+        });
+
+    // Most recent first
+    const byTime = (a: MemberReceipt, b: MemberReceipt) => (b.at?.getTime() || 0) - (a.at?.getTime() || 0);
+    receipts.read.sort(byTime);
+    receipts.delivered.sort(byTime);
+    return receipts;
+};
@@ -0,0 +1,68 @@
+import { ChatErrorReason } from '../services/chatErrors';
+import { MAX_ATTACHMENT_BYTES, VOICE_MIME_TYPES } from './attachments';
+
+// Recordings shorter than this are treated as an accidental tap and dropped
+export const MIN_RECORDING_MS = 500;
+// Recording stops and sends by itself at this length
+export const MAX_RECORDING_MS = 5 * 60 * 1000;
+
+// Bars in the waveform preview
+export const WAVEFORM_BARS = 48;
+
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+// MediaRecorder reports types with codecs ('audio/webm;codecs=opus'); Storage and the rules get the bare type
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+// First format this browser can record in, or undefined to let MediaRecorder choose
+export const pickRecordingMimeType = () =>
+    typeof MediaRecorder === 'undefined'
+        ? undefined
+        : ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+
+export const rejectVoiceRecording = (blob: Blob): ChatErrorReason | null => {
+    if (!VOICE_MIME_TYPES.includes(baseMimeType(blob.type))) return 'unsupported_type';
+    if (blob.size > MAX_ATTACHMENT_BYTES) return 'too_large';
+    return null;
+};
+
+// Peak level of each slice of the recording, scaled so the loudest bar is 1. MediaRecorder output carries no
+// duration, so it's read from the decoded audio; fallbackMs (the time spent recording) covers undecodable files.
+export const analyzeRecording = async (blob: Blob, fallbackMs: number): Promise<{ durationMs: number; waveform: number[] }> => {
+    const flat = { durationMs: fallbackMs, waveform: Array(WAVEFORM_BARS).fill(0) };
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return flat;
+
+    const context = new AudioContextClass();
+    try {
+        const audio = await context.decodeAudioData(await blob.arrayBuffer());
+        const samples = audio.getChannelData(0);
+        const sliceSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+
+        const peaks = Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+            let peak = 0;
+            for (let i = bar * sliceSize; i < Math.min(samples.length, (bar + 1) * sliceSize); i++) {
+                peak = Math.max(peak, Math.abs(samples[i]));
+            }
+            return peak;
+        });
+        const loudest = Math.max(...peaks) || 1;
+
+        return {
+            durationMs: Math.round(audio.duration * 1000) || fallbackMs,
+            // Two decimals are plenty for drawing and keep the message document small
+            waveform: peaks.map(peak => Math.round((peak / loudest) * 100) / 100)
+        };
+    } catch (err) {
+        console.warn("Failed to analyze recording", err);
+        return flat;
+    } finally {
+        context.close();
+    }
+};
+
+// 0:07, 1:23
+export const formatDuration = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -12,11 +13,17 @@ export default defineConfig({
       output: {
         manualChunks: {
           'vendor-react': ['react', 'react-dom', 'react-router-dom'],
-          'vendor-firebase': ['firebase/app', 'firebase/auth', 'firebase/firestore'],
+          'vendor-firebase': ['firebase/app', 'firebase/auth', 'firebase/firestore', 'firebase/storage'],
           'vendor-utils': ['lucide-react', 'date-fns']
         }
       }
     },
     chunkSizeWarningLimit: 1000
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    // Emulator suites share one Firestore, so files run one after another
+    fileParallelism: false,
+    testTimeout: 20000
   }
 })
\ No newline at end of file